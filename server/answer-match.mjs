@@ -0,0 +1,77 @@
+// Free-text answer matching for "type answer" questions.
+
+// Thai tone marks (mai ek, mai tho, mai tri, mai chattawa).
+const THAI_TONE_MARKS = /[\u0E48-\u0E4B]/g;
+// Zero-width space/joiners, word joiner and BOM, which Thai keyboards and copy-paste often leave behind.
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF]/g;
+const WHITESPACE = /\s+/g;
+
+export function normalizeAnswerText(value) {
+  return String(value ?? "")
+    .normalize("NFKC")
+    .replace(ZERO_WIDTH, "")
+    .replace(THAI_TONE_MARKS, "")
+    .replace(WHITESPACE, "")
+    .toLowerCase();
+}
+
+/** Levenshtein distance over code points, giving up early once it exceeds `max`. */
+export function editDistance(a, b, max = Infinity) {
+  const left = Array.from(a);
+  const right = Array.from(b);
+  if (Math.abs(left.length - right.length) > max) return max + 1;
+
+  let prev = Array.from({ length: right.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= left.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= right.length; j++) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = row;
+  }
+  return prev[right.length];
+}
+
+/** True when `input` matches any accepted answer within `maxTypos` edits after normalization. */
+export function matchesAcceptedAnswer(input, acceptedAnswers, maxTypos = 0) {
+  const typed = normalizeAnswerText(input);
+  if (!typed) return false;
+  const tolerance = Math.max(0, Math.floor(Number(maxTypos) || 0));
+  for (const accepted of acceptedAnswers ?? []) {
+    const target = normalizeAnswerText(accepted);
+    if (!target) continue;
+    if (typed === target) return true;
+    // Don't let typo tolerance swallow most of a very short answer.
+    const allowed = Math.min(tolerance, Math.floor(Array.from(target).length / 3));
+    if (allowed > 0 && editDistance(typed, target, allowed) <= allowed) return true;
+  }
+  return false;
+}
+
+/** Key used to group word-cloud answers: unlike matching, tone marks are kept since they change the word. */
+function wordKey(value) {
+  return String(value ?? "")
+    .normalize("NFKC")
+    .replace(ZERO_WIDTH, "")
+    .replace(WHITESPACE, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/** Groups free-text answers, most frequent first; each group shows the first spelling submitted. */
+export function groupWords(texts) {
+  /** @type {Map<string, { text: string, count: number }>} */
+  const groups = new Map();
+  for (const text of texts) {
+    const key = wordKey(text);
+    if (!key) continue;
+    const group = groups.get(key);
+    if (group) group.count += 1;
+    else groups.set(key, { text: String(text).replace(WHITESPACE, " ").trim(), count: 1 });
+  }
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { editDistance, groupWords, matchesAcceptedAnswer, normalizeAnswerText } from "./answer-match.mjs";
+
+describe("normalizeAnswerText", () => {
+  it("drops Thai tone marks but keeps vowels", () => {
+    expect(normalizeAnswerText("ไม้เอก")).toBe(normalizeAnswerText("ไมเอก"));
+    expect(normalizeAnswerText("กิน")).not.toBe(normalizeAnswerText("กน"));
+  });
+
+  it("ignores spacing, zero-width characters and case", () => {
+    expect(normalizeAnswerText("  New\u200B York ")).toBe("newyork");
+    expect(normalizeAnswerText("ＡＢＣ")).toBe("abc");
+  });
+
+  it("turns missing input into an empty string", () => {
+    expect(normalizeAnswerText(undefined)).toBe("");
+    expect(normalizeAnswerText(null)).toBe("");
+  });
+});
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("กรุงเทพ", "กรุงเทพ")).toBe(0);
+  });
+
+  it("stops once the distance passes the limit", () => {
+    expect(editDistance("kitten", "sitting", 1)).toBe(2);
+    expect(editDistance("a", "abcd", 2)).toBe(3);
+  });
+});
+
+describe("matchesAcceptedAnswer", () => {
+  it("matches after normalizing either side", () => {
+    expect(matchesAcceptedAnswer("bangkok ", ["Bangkok"])).toBe(true);
+    expect(matchesAcceptedAnswer("ก่อน", ["กอน"])).toBe(true);
+    expect(matchesAcceptedAnswer("Chiang Mai", ["Bangkok", "chiangmai"])).toBe(true);
+  });
+
+  it("allows typos up to the limit, and at most a third of the answer", () => {
+    expect(matchesAcceptedAnswer("Bangkak", ["Bangkok"], 1)).toBe(true);
+    expect(matchesAcceptedAnswer("Bongkak", ["Bangkok"], 1)).toBe(false);
+    expect(matchesAcceptedAnswer("Bongkak", ["Bangkok"], 2)).toBe(true);
+    expect(matchesAcceptedAnswer("Bangkak", ["Bangkok"], 0)).toBe(false);
+    // Three letters allow one typo, however many are asked for.
+    expect(matchesAcceptedAnswer("cut", ["cat"], 3)).toBe(true);
+    expect(matchesAcceptedAnswer("cot", ["ca"], 3)).toBe(false);
+  });
+
+  it("never matches an empty answer", () => {
+    expect(matchesAcceptedAnswer("", ["Bangkok"], 2)).toBe(false);
+    expect(matchesAcceptedAnswer(" \u200B", [""], 2)).toBe(false);
+    expect(matchesAcceptedAnswer("x", undefined)).toBe(false);
+  });
+});
+
+describe("groupWords", () => {
+  it("groups by case and spacing, most frequent first, keeping tone marks apart", () => {
+    expect(groupWords(["Cat", "dog", " cat", "ไก่", "ไก"])).toEqual([
+      { text: "Cat", count: 2 },
+      { text: "dog", count: 1 },
+      { text: "ไก่", count: 1 },
+      { text: "ไก", count: 1 },
+    ]);
+  });
+});
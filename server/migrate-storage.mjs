@@ -0,0 +1,69 @@
+// Copies quizzes, rooms and saved results from one storage backend to another; by default
+// from the JSON files (src/data/rooms.json and src/data/results/) into SQLite. Running it
+// again updates the copies instead of duplicating them. Records saved under an older
+// schema are upgraded on the way; records without an ID or PIN are reported and skipped.
+//
+//   npm run storage:migrate [-- --from json --to sqlite]
+
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { migrateRecord, openStorage } from "../src/lib/storage/index.mjs";
+
+const { values } = parseArgs({
+  options: {
+    from: { type: "string", default: "json" },
+    to: { type: "string", default: "sqlite" },
+  },
+});
+
+if (values.from === values.to) {
+  console.error(`Nothing to do: --from and --to are both "${values.from}".`);
+  process.exit(1);
+}
+
+const dataDir = fileURLToPath(new URL("../src/data/", import.meta.url));
+const source = await openStorage({ dataDir, backend: values.from });
+const target = await openStorage({ dataDir, backend: values.to });
+
+let quizCount = 0;
+let roomCount = 0;
+let resultCount = 0;
+let skipped = 0;
+
+/** Whether a record has the key it is saved under; warns about the ones that don't. */
+function hasKey(kind, record, key) {
+  const value = record?.[key];
+  if (typeof value === "string" && value.trim()) return true;
+  console.warn(`Skipped a ${kind} without a valid ${key}: ${JSON.stringify(record)?.slice(0, 200)}`);
+  skipped += 1;
+  return false;
+}
+
+try {
+  for (const quiz of source.listQuizzes()) {
+    if (!hasKey("quiz", quiz, "id")) continue;
+    target.saveQuiz(migrateRecord(quiz));
+    quizCount += 1;
+  }
+  for (const room of source.listRooms()) {
+    if (!hasKey("room", room, "pin")) continue;
+    target.saveRoom(migrateRecord(room));
+    roomCount += 1;
+    for (const result of source.listResults(room.pin.trim())) {
+      if (!hasKey("saved game", result, "id")) continue;
+      target.addResult(result);
+      resultCount += 1;
+    }
+  }
+} finally {
+  source.close();
+  target.close();
+}
+
+console.log(
+  `Copied ${quizCount} quizzes, ${roomCount} rooms and ${resultCount} saved games from ${values.from} to ${values.to}.`,
+);
+if (skipped) {
+  console.error(`Skipped ${skipped} records that could not be copied; see the warnings above.`);
+  process.exitCode = 1;
+}
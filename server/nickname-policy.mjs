@@ -0,0 +1,178 @@
+// Which nicknames players may join with: reserved names are always refused, offensive
+// words unless the room turns the filter off.
+
+// Thai tone marks, mai taikhu and thanthakhat, which change spelling but not the word.
+const THAI_MARKS = /[\u0E47-\u0E4C]/g;
+// Zero-width space/joiners, word joiner and BOM.
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF]/g;
+
+// Digits, symbols and look-alike Cyrillic letters commonly typed in place of letters.
+const SUBSTITUTIONS = new Map(
+  Object.entries({
+    0: "o",
+    1: "i",
+    3: "e",
+    4: "a",
+    5: "s",
+    7: "t",
+    8: "b",
+    9: "g",
+    "@": "a",
+    $: "s",
+    "!": "i",
+    "|": "l",
+    "+": "t",
+    а: "a",
+    в: "b",
+    е: "e",
+    і: "i",
+    к: "k",
+    м: "m",
+    н: "h",
+    о: "o",
+    р: "p",
+    с: "c",
+    т: "t",
+    у: "y",
+    х: "x",
+  }),
+);
+
+// A name the way the lists below are compared: lower case, look-alikes undone and Thai
+// marks dropped. Letters repeated for effect are left for `pattern` to deal with.
+function normalize(text) {
+  return Array.from(
+    String(text ?? "")
+      .normalize("NFKC")
+      .toLowerCase()
+      .replace(ZERO_WIDTH, "")
+      .replace(THAI_MARKS, ""),
+    (ch) => SUBSTITUTIONS.get(ch) ?? ch,
+  ).join("");
+}
+
+const SEPARATORS = /[^\p{L}\p{M}\p{N}]+/gu;
+
+/**
+ * The words of a name, plus any letters spelled out one at a time ("f.u.c.k", "f u c k")
+ * joined into one. Words are checked one by one so that a match can't span two of them.
+ */
+function tokens(text) {
+  const words = normalize(text).split(SEPARATORS).filter(Boolean);
+  const runs = [];
+  let run = "";
+  for (const word of [...words, ""]) {
+    if (Array.from(word).length === 1) {
+      run += word;
+      continue;
+    }
+    if (Array.from(run).length > 1) runs.push(run);
+    run = "";
+  }
+  return [...words, ...runs];
+}
+
+/**
+ * A list entry as a regex source that also matches its letters repeated for effect
+ * ("fuuuck"). Entries are used as written, so "ass" still needs two s's.
+ */
+function pattern(word) {
+  const letters = Array.from(word.replace(THAI_MARKS, ""), (ch) => ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return letters.map((ch) => `${ch}+`).join("");
+}
+
+function anywhere(words) {
+  return words.map((word) => new RegExp(pattern(word), "u"));
+}
+
+function wholeWord(words) {
+  return words.map((word) => new RegExp(`^${pattern(word)}$`, "u"));
+}
+
+/** Names only the app itself may use; "(host)" marks the host's entry in a room. */
+const RESERVED_NAMES = wholeWord([
+  "host",
+  "admin",
+  "administrator",
+  "moderator",
+  "system",
+  "server",
+  "แอดมิน",
+  "ผู้ดูแลระบบ",
+]);
+
+// Refused wherever they appear in a word of a name ("fuckface") or in letters spelled out.
+const BLOCKED_ANYWHERE = anywhere([
+  "fuck",
+  "shit",
+  "bitch",
+  "whore",
+  "slut",
+  "nigger",
+  "nigga",
+  "faggot",
+  "asshole",
+  "bastard",
+  "dickhead",
+  "pussy",
+  "wank",
+  "เหี้ย",
+  "ควย",
+  "เย็ด",
+  "สัส",
+  "แตด",
+  "จัญไร",
+  "ระยำ",
+  "ชาติหมา",
+  "ไอ้สัตว์",
+  "อีสัตว์",
+  "อีดอก",
+  "ส้นตีน",
+  "หน้าหี",
+  "กะหรี่",
+  "พ่อมึง",
+  "แม่มึง",
+]);
+
+// Refused only as a whole word, since they are part of ordinary words and names ("class",
+// "Siriporn", "หีบ", "สัดส่วน").
+const BLOCKED_WORDS = wholeWord([
+  "ass",
+  "cunt",
+  "dick",
+  "cock",
+  "tits",
+  "twat",
+  "sex",
+  "porn",
+  "หี",
+  "สัด",
+  "ร่าน",
+  "มึง",
+]);
+
+/** Reads extra blocked words, one per line; `#` starts a comment. */
+export function parseBlocklist(text) {
+  return String(text ?? "")
+    .split("\n")
+    .map((line) => line.replace(/#.*/, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Why a nickname can't be used, or null when it can. `extraWords` are refused wherever they
+ * appear, like the built-in list; `filterWords: false` only keeps reserved names out.
+ */
+export function nicknameProblem(nickname, { filterWords = true, extraWords = [] } = {}) {
+  // "(host)" and "Ad Min" are reserved too.
+  const whole = normalize(nickname).replace(SEPARATORS, "");
+  if (!whole) return null;
+  if (RESERVED_NAMES.some((name) => name.test(whole))) return "That nickname is reserved. Pick another one.";
+  if (!filterWords) return null;
+  const blocked = [...BLOCKED_ANYWHERE, ...anywhere(extraWords.map(normalize).filter(Boolean))];
+  const matches = (part) => blocked.some((word) => word.test(part)) || BLOCKED_WORDS.some((word) => word.test(part));
+  if (tokens(nickname).some(matches)) {
+    return "That nickname isn't allowed. Pick another one.";
+  }
+  return null;
+}
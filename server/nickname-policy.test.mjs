@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { nicknameProblem, parseBlocklist } from "./nickname-policy.mjs";
+
+const RESERVED = "That nickname is reserved. Pick another one.";
+const BLOCKED = "That nickname isn't allowed. Pick another one.";
+
+describe("nicknameProblem", () => {
+  it("lets ordinary names through", () => {
+    for (const name of [
+      "Siriporn",
+      "Supaporn",
+      "Pornthip K.",
+      "Fast as lightning",
+      "As",
+      "Chris Hitchens",
+      "Class",
+      "Assam",
+      "Dickens",
+      "สมพร",
+      "สัดส่วน",
+    ]) {
+      expect(nicknameProblem(name), name).toBeNull();
+    }
+  });
+
+  it("keeps reserved names out, however they are spaced", () => {
+    for (const name of ["(host)", "ADMIN", "Ad Min", "h o s t", "แอดมิน"]) {
+      expect(nicknameProblem(name), name).toBe(RESERVED);
+    }
+  });
+
+  it("sees through spelling tricks", () => {
+    for (const name of ["fuuuck", "F.u.c.k", "f u c k you", "Fuckface", "sh1t", "а s s", "Asss", "P0rn star", "เหี้ยยย"]) {
+      expect(nicknameProblem(name), name).toBe(BLOCKED);
+    }
+  });
+
+  it("refuses short words only on their own", () => {
+    expect(nicknameProblem("porn")).toBe(BLOCKED);
+    expect(nicknameProblem("Siriporn")).toBeNull();
+  });
+
+  it("only keeps reserved names out when the filter is off", () => {
+    expect(nicknameProblem("fuuuck", { filterWords: false })).toBeNull();
+    expect(nicknameProblem("admin", { filterWords: false })).toBe(RESERVED);
+  });
+
+  it("refuses extra words anywhere in a word", () => {
+    expect(nicknameProblem("MegaTablesKid", { extraWords: ["tables"] })).toBe(BLOCKED);
+    expect(nicknameProblem("Bob", { extraWords: ["c++"] })).toBeNull();
+  });
+});
+
+describe("parseBlocklist", () => {
+  it("reads one word per line and skips comments", () => {
+    expect(parseBlocklist("# school words\nfoo\n\n  bar  # trailing\n")).toEqual(["foo", "bar"]);
+  });
+});
@@ -0,0 +1,155 @@
+// How answers are graded and scored: which answers are right, how much credit a near miss
+// earns and how many points an answer is worth. Used by server/ws-server.mjs.
+
+import { matchesAcceptedAnswer } from "./answer-match.mjs";
+
+const TRUE_FALSE_CHOICES = ["True", "False"];
+
+const QUESTION_TYPES = new Set(["single", "true_false", "multi", "type_answer", "slider", "poll", "word_cloud"]);
+export const UNGRADED_TYPES = new Set(["poll", "word_cloud"]);
+
+/** Questions saved before question types existed have no `type` and are single choice. */
+export function questionType(q) {
+  return QUESTION_TYPES.has(q?.type) ? q.type : "single";
+}
+
+/** The slider bounds players need to render the question; never includes the answer. */
+export function sliderSettings(q) {
+  const min = Number.isFinite(q?.min) ? q.min : 0;
+  const max = Number.isFinite(q?.max) && q.max > min ? q.max : min + 100;
+  const step = Number.isFinite(q?.step) && q.step > 0 ? q.step : 1;
+  return { min, max, step, unit: typeof q?.unit === "string" ? q.unit : "" };
+}
+
+export function questionChoices(q) {
+  if (questionType(q) === "true_false") return TRUE_FALSE_CHOICES;
+  if (["type_answer", "slider", "word_cloud"].includes(questionType(q))) return [];
+  return Array.isArray(q?.choices) ? q.choices.map((c) => String(c ?? "")) : [];
+}
+
+/**
+ * Checks a player's answer against the question. Returns null for a malformed answer,
+ * otherwise the answer fields to echo back plus `correct` and a 0–1 `credit`.
+ * Polls and word clouds come back with `graded: false` and no credit.
+ */
+export function gradeAnswer(q, msg) {
+  const choices = questionChoices(q);
+  const inRange = (i) => Number.isInteger(i) && i >= 0 && i < choices.length;
+
+  if (questionType(q) === "word_cloud") {
+    const text = typeof msg?.text === "string" ? msg.text.trim().slice(0, 40) : "";
+    if (!text) return null;
+    return { answer: { text }, graded: false, correct: false, credit: 0 };
+  }
+
+  if (questionType(q) === "poll") {
+    if (!inRange(msg?.choiceIndex)) return null;
+    return { answer: { choiceIndex: msg.choiceIndex }, graded: false, correct: false, credit: 0 };
+  }
+
+  if (questionType(q) === "type_answer") {
+    const text = typeof msg?.text === "string" ? msg.text.trim().slice(0, 80) : "";
+    if (!text) return null;
+    const accepted = Array.isArray(q?.acceptedAnswers) ? q.acceptedAnswers : [];
+    const correct = matchesAcceptedAnswer(text, accepted, q?.maxTypos);
+    return { answer: { text }, graded: true, correct, credit: correct ? 1 : 0 };
+  }
+
+  if (questionType(q) === "slider") {
+    const { min, max, step } = sliderSettings(q);
+    if (typeof msg?.value !== "number" || !Number.isFinite(msg.value)) return null;
+    if (msg.value < min || msg.value > max) return null;
+    // Snap to the slider's step so floating-point noise can't cost points; mirrors
+    // `snapToSliderStep` in src/lib/quiz.ts, which keeps correct values on a step.
+    const decimals = (String(step).split(".")[1] ?? "").length;
+    const value = Number((min + Math.round((msg.value - min) / step) * step).toFixed(decimals));
+    const credit = proximityCredit({ value, correctValue: q?.correctValue, tolerance: q?.tolerance });
+    return { answer: { value }, graded: true, correct: value === q?.correctValue, credit };
+  }
+
+  if (questionType(q) === "multi") {
+    if (!Array.isArray(msg?.choiceIndices)) return null;
+    const picked = Array.from(new Set(msg.choiceIndices));
+    if (picked.length === 0 || !picked.every(inRange)) return null;
+    picked.sort((a, b) => a - b);
+
+    // Each right pick earns a share of the points, each wrong pick takes one away.
+    const correctSet = new Set(Array.isArray(q?.correctIndices) ? q.correctIndices : []);
+    const hits = picked.filter((i) => correctSet.has(i)).length;
+    const misses = picked.length - hits;
+    const credit = correctSet.size > 0 ? Math.max(0, (hits - misses) / correctSet.size) : 0;
+    return {
+      answer: { choiceIndices: picked },
+      graded: true,
+      correct: misses === 0 && hits === correctSet.size,
+      credit,
+    };
+  }
+
+  const choiceIndex = msg?.choiceIndex;
+  if (!inRange(choiceIndex)) return null;
+  const correct = choiceIndex === q?.correctIndex;
+  return { answer: { choiceIndex }, graded: true, correct, credit: correct ? 1 : 0 };
+}
+
+/** Full credit for the exact value, falling linearly to zero at `tolerance` away. */
+export function proximityCredit({ value, correctValue, tolerance }) {
+  if (typeof correctValue !== "number") return 0;
+  const distance = Math.abs(value - correctValue);
+  if (distance === 0) return 1;
+  if (typeof tolerance !== "number" || tolerance <= 0 || distance > tolerance) return 0;
+  return 1 - distance / tolerance;
+}
+
+/** Mirrors `normalizeScoring` in src/lib/quiz.ts. */
+export function scoringSettings(quiz) {
+  const scoring = quiz?.scoring;
+  return {
+    speedBonus: typeof scoring?.speedBonus === "boolean" ? scoring.speedBonus : true,
+    streakBonus: scoring?.streakBonus === true,
+    negativeMarking: scoring?.negativeMarking === true,
+  };
+}
+
+/** Mirrors `pointsMultiplier` in src/lib/quiz.ts. */
+export function pointsMultiplier(q) {
+  return q?.pointsMultiplier === 0 || q?.pointsMultiplier === 2 ? q.pointsMultiplier : 1;
+}
+
+const BASE_POINTS = 500;
+const SPEED_BONUS_POINTS = 500;
+const STREAK_BONUS_STEP = 100;
+const STREAK_BONUS_MAX = 500;
+const WRONG_ANSWER_PENALTY = 250;
+
+/**
+ * Each rule adds one named part of an answer's points; the quiz's scoring settings
+ * switch the optional ones on. `streak` counts this answer when it is correct.
+ */
+const SCORING_RULES = {
+  base: ({ credit }) => Math.round(BASE_POINTS * credit),
+  speed: ({ credit, elapsedMs, durationMs, scoring }) => {
+    if (!scoring.speedBonus || credit <= 0) return 0;
+    const t = Math.max(0, Math.min(1, 1 - elapsedMs / Math.max(1, durationMs)));
+    return Math.round(Math.floor(SPEED_BONUS_POINTS * t) * credit);
+  },
+  streak: ({ correct, streak, scoring }) => {
+    if (!scoring.streakBonus || !correct || streak < 2) return 0;
+    return Math.min(STREAK_BONUS_MAX, (streak - 1) * STREAK_BONUS_STEP);
+  },
+  penalty: ({ credit, scoring }) => (scoring.negativeMarking && credit <= 0 ? -WRONG_ANSWER_PENALTY : 0),
+};
+
+/** Points for a graded answer, with the parts they were made up from. */
+export function computePoints({ credit, correct, elapsedMs, durationMs, streak, scoring, multiplier }) {
+  const context = { credit: Math.max(0, Math.min(1, credit)), correct, elapsedMs, durationMs, streak, scoring };
+  const breakdown = { multiplier };
+  let delta = 0;
+  for (const [name, rule] of Object.entries(SCORING_RULES)) {
+    // `+ 0` keeps a zero multiplier from producing -0.
+    const points = rule(context) * multiplier + 0;
+    breakdown[name] = points;
+    delta += points;
+  }
+  return { delta, breakdown };
+}
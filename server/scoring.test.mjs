@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { computePoints, gradeAnswer, proximityCredit, scoringSettings } from "./scoring.mjs";
+
+const defaults = scoringSettings(undefined);
+const points = (overrides) =>
+  computePoints({
+    credit: 1,
+    correct: true,
+    elapsedMs: 0,
+    durationMs: 10_000,
+    streak: 1,
+    scoring: defaults,
+    multiplier: 1,
+    ...overrides,
+  });
+
+describe("computePoints", () => {
+  it("gives the full speed bonus at time zero and none once time is up", () => {
+    expect(points({ elapsedMs: 0 }).delta).toBe(1000);
+    expect(points({ elapsedMs: 5000 }).delta).toBe(750);
+    expect(points({ elapsedMs: 10_000 }).delta).toBe(500);
+    expect(points({ elapsedMs: 12_000 }).delta).toBe(500);
+  });
+
+  it("survives a question with no duration", () => {
+    expect(points({ elapsedMs: 0, durationMs: 0 }).delta).toBe(1000);
+  });
+
+  it("scales with partial credit and the points multiplier", () => {
+    expect(points({ credit: 0.5, correct: false }).delta).toBe(500);
+    expect(points({ multiplier: 2 }).delta).toBe(2000);
+    expect(points({ multiplier: 0 })).toEqual({
+      delta: 0,
+      breakdown: { multiplier: 0, base: 0, speed: 0, streak: 0, penalty: 0 },
+    });
+  });
+
+  it("adds a streak bonus from the second correct answer, up to its cap", () => {
+    const scoring = { ...defaults, streakBonus: true };
+    expect(points({ scoring, streak: 1 }).breakdown.streak).toBe(0);
+    expect(points({ scoring, streak: 3 }).breakdown.streak).toBe(200);
+    expect(points({ scoring, streak: 20 }).breakdown.streak).toBe(500);
+  });
+
+  it("takes points off a wrong answer only with negative marking", () => {
+    expect(points({ credit: 0, correct: false }).delta).toBe(0);
+    const scoring = { ...defaults, negativeMarking: true };
+    expect(points({ credit: 0, correct: false, scoring }).delta).toBe(-250);
+    expect(points({ credit: 0.2, correct: false, scoring }).breakdown.penalty).toBe(0);
+  });
+});
+
+describe("proximityCredit", () => {
+  it("falls from full credit at the value to none at the tolerance", () => {
+    expect(proximityCredit({ value: 50, correctValue: 50, tolerance: 10 })).toBe(1);
+    expect(proximityCredit({ value: 55, correctValue: 50, tolerance: 10 })).toBe(0.5);
+    expect(proximityCredit({ value: 60, correctValue: 50, tolerance: 10 })).toBe(0);
+    expect(proximityCredit({ value: 61, correctValue: 50, tolerance: 10 })).toBe(0);
+  });
+
+  it("needs an exact answer without a tolerance or a correct value", () => {
+    expect(proximityCredit({ value: 51, correctValue: 50, tolerance: 0 })).toBe(0);
+    expect(proximityCredit({ value: 50, correctValue: 50 })).toBe(1);
+    expect(proximityCredit({ value: 50, correctValue: undefined, tolerance: 10 })).toBe(0);
+  });
+});
+
+describe("gradeAnswer", () => {
+  it("doesn't grade polls or word clouds", () => {
+    const poll = { type: "poll", choices: ["A", "B"] };
+    expect(gradeAnswer(poll, { choiceIndex: 1 })).toEqual({
+      answer: { choiceIndex: 1 },
+      graded: false,
+      correct: false,
+      credit: 0,
+    });
+    expect(gradeAnswer(poll, { choiceIndex: 2 })).toBeNull();
+    expect(gradeAnswer({ type: "word_cloud" }, { text: " hi " })).toMatchObject({
+      answer: { text: "hi" },
+      graded: false,
+    });
+  });
+
+  it("snaps slider answers to the step and gives proximity credit", () => {
+    const slider = { type: "slider", min: 0, max: 10, step: 0.5, correctValue: 5, tolerance: 2 };
+    expect(gradeAnswer(slider, { value: 5.1 })).toEqual({ answer: { value: 5 }, graded: true, correct: true, credit: 1 });
+    expect(gradeAnswer(slider, { value: 6 })).toMatchObject({ correct: false, credit: 0.5 });
+    expect(gradeAnswer(slider, { value: 11 })).toBeNull();
+  });
+
+  it("gives multi-select credit per right pick, less wrong ones", () => {
+    const multi = { type: "multi", choices: ["A", "B", "C", "D"], correctIndices: [0, 1] };
+    expect(gradeAnswer(multi, { choiceIndices: [1, 0] })).toMatchObject({ correct: true, credit: 1 });
+    expect(gradeAnswer(multi, { choiceIndices: [0] })).toMatchObject({ correct: false, credit: 0.5 });
+    expect(gradeAnswer(multi, { choiceIndices: [0, 2] })).toMatchObject({ correct: false, credit: 0 });
+    expect(gradeAnswer(multi, { choiceIndices: [] })).toBeNull();
+  });
+
+  it("grades single choice questions, including ones saved without a type", () => {
+    expect(gradeAnswer({ choices: ["A", "B"], correctIndex: 1 }, { choiceIndex: 1 })).toMatchObject({ correct: true });
+    expect(gradeAnswer({ type: "true_false", correctIndex: 0 }, { choiceIndex: 1 })).toMatchObject({ correct: false });
+    expect(gradeAnswer({ type: "true_false", correctIndex: 0 }, { choiceIndex: 2 })).toBeNull();
+  });
+});
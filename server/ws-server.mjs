@@ -1,50 +1,170 @@
 import http from "node:http";
+import { randomBytes } from "node:crypto";
 import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
 import { WebSocket, WebSocketServer } from "ws";
+import { PROTOCOL_VERSION, parseClientMessage } from "../src/lib/protocol/index.mjs";
+import { clientAddress, createRateLimiter, PIN_MISS_LIMIT } from "../src/lib/rate-limit/index.mjs";
+import { migrateRecord, openStorage } from "../src/lib/storage/index.mjs";
+import { groupWords } from "./answer-match.mjs";
+import { nicknameProblem, parseBlocklist } from "./nickname-policy.mjs";
+import {
+  computePoints,
+  gradeAnswer,
+  pointsMultiplier,
+  questionChoices,
+  questionType,
+  scoringSettings,
+  sliderSettings,
+  UNGRADED_TYPES,
+} from "./scoring.mjs";
 
 const PORT = process.env.WS_PORT ? Number(process.env.WS_PORT) : 3001;
-const ROOMS_JSON_PATH = new URL("../src/data/rooms.json", import.meta.url);
+const storage = await openStorage({ dataDir: fileURLToPath(new URL("../src/data/", import.meta.url)) });
 
 const INTERMISSION_MS = 12000;
 const PRE_START_MS = 5000;
+const DEFAULT_EXTEND_MS = 10000;
+const MAX_EXTEND_MS = 120000;
+// Part of the intermission spent revealing the answer before the ranking is shown.
+const REVEAL_MS = 5000;
+// How long a disconnected player's slot, nickname and score are kept for a `resume`.
+const PLAYER_GRACE_MS = process.env.PLAYER_GRACE_MS ? Number(process.env.PLAYER_GRACE_MS) : 60000;
+// How long a running game keeps going without a host before it is reset.
+const HOST_GRACE_MS = process.env.HOST_GRACE_MS ? Number(process.env.HOST_GRACE_MS) : 120000;
+// Words refused in nicknames on top of the built-in list, one per line.
+const EXTRA_BLOCKED_WORDS = process.env.NICKNAME_BLOCKLIST_FILE
+  ? parseBlocklist(readFileSync(process.env.NICKNAME_BLOCKLIST_FILE, "utf8"))
+  : [];
+
+// Unknown PINs tried per address, in joins and status checks; known PINs always answer.
+const pinMisses = createRateLimiter(PIN_MISS_LIMIT);
+
+/**
+ * Counts a request for a PIN that doesn't exist, and says whether the address has tried too
+ * many. Call it only for unknown PINs, so that guessing never locks anyone out of a real game.
+ */
+function pinMissLimited(address) {
+  if (pinMisses.retryAfter(address)) return true;
+  pinMisses.hit(address);
+  return false;
+}
+
+function requestAddress(req) {
+  return clientAddress({ forwardedFor: req.headers["x-forwarded-for"], remoteAddress: req.socket.remoteAddress });
+}
+
+/** Mirrors `isRoomExpired` in src/lib/rooms-store.ts. */
+function isRoomExpired(room, now = Date.now()) {
+  return typeof room?.expiresAt === "string" && Date.parse(room.expiresAt) <= now;
+}
 
 function loadAllowedPins() {
-  const raw = readFileSync(ROOMS_JSON_PATH, "utf8");
-  const parsed = JSON.parse(raw);
   const pins = new Set();
-  for (const room of parsed?.rooms ?? []) {
-    if (typeof room?.pin === "string" && room.pin.trim().length > 0) {
+  for (const room of storage.listRooms()) {
+    if (typeof room?.pin === "string" && room.pin.trim().length > 0 && !isRoomExpired(room)) {
       pins.add(room.pin.trim());
     }
   }
   return pins;
 }
 
+/** Whether players can join this PIN: the room exists and, for a hosted session, hasn't expired. */
+function isJoinablePin(pin) {
+  if (!pin) return false;
+  try {
+    const room = storage.getRoom(pin);
+    return Boolean(room) && !isRoomExpired(room);
+  } catch (err) {
+    console.error(`Failed to look up room ${pin}:`, err);
+    return false;
+  }
+}
+
+/** Whether a room is stored under this PIN, expired or not. */
+function roomExists(pin) {
+  try {
+    return Boolean(storage.getRoom(pin));
+  } catch (err) {
+    console.error(`Failed to look up room ${pin}:`, err);
+    return false;
+  }
+}
+
+/**
+ * The room for a PIN, with the quiz and settings of a library session filled in and
+ * records saved by older versions upgraded, like `findRoomByPin` in src/lib/rooms-store.ts.
+ */
 function loadRoomRecord(pin) {
-  const raw = readFileSync(ROOMS_JSON_PATH, "utf8");
-  const parsed = JSON.parse(raw);
-  const roomsArr = Array.isArray(parsed?.rooms) ? parsed.rooms : [];
-  return roomsArr.find((r) => typeof r?.pin === "string" && r.pin.trim() === pin) ?? null;
+  const room = storage.getRoom(pin);
+  const item = room?.quizId && !room.quiz ? storage.getQuiz(room.quizId) : null;
+  if (!item) return room && migrateRecord(room);
+  return { ...room, quiz: migrateRecord(item).quiz, settings: item.settings };
+}
+
+const MIN_TEAMS = 2;
+const MAX_TEAMS = 8;
+const PLAYER_LIMIT = 1000;
+const LATE_JOIN_POLICIES = ["allow", "spectate", "reject"];
+
+/** Mirrors `clampMaxPlayers` in src/lib/room-settings.ts. */
+function clampMaxPlayers(value) {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(PLAYER_LIMIT, Math.max(0, Math.round(value)));
 }
 
-let allowedPins = loadAllowedPins();
+/** Mirrors `normalizeRoomSettings` in src/lib/room-settings.ts. */
+function roomSettings(record) {
+  const settings = record?.settings;
+  const names = Array.isArray(settings?.teams) ? settings.teams : [];
+  const teams = Array.from(
+    new Set(names.map((n) => String(n ?? "").trim().slice(0, 24)).filter(Boolean)),
+  ).slice(0, MAX_TEAMS);
+  return {
+    autoAdvance: settings?.autoAdvance === true,
+    teamMode: settings?.teamMode === true && teams.length >= MIN_TEAMS,
+    teams,
+    teamScoring: settings?.teamScoring === "total" ? "total" : "average",
+    filterNicknames: settings?.filterNicknames !== false,
+    approvePlayers: settings?.approvePlayers === true,
+    maxPlayers: clampMaxPlayers(Number(settings?.maxPlayers)),
+    lateJoin: LATE_JOIN_POLICIES.includes(settings?.lateJoin) ? settings.lateJoin : "allow",
+  };
+}
 
-/** @type {Map<string, Map<string, {id: string, nickname: string}>>} */
+/** @type {Map<string, Map<string, {id: string, nickname: string, resumeToken?: string, deviceId?: string, connected: boolean, team?: string, spectator?: boolean}>>} */
 const rooms = new Map();
 
-/** @type {Map<string, { hostId?: string, state: 'waiting'|'running'|'ended', quiz?: any, questionIndex: number, questionStartedAt?: number, questionEndsAt?: number, answeredByQuestion: Map<number, Set<string>>, scores: Map<string, number> }>} */
+/** @type {Map<string, { hostId?: string, state: 'waiting'|'running'|'ended', startedAt?: number, quiz?: any, settings: { autoAdvance: boolean, teamMode: boolean, teams: string[], teamScoring: 'average'|'total', filterNicknames: boolean, approvePlayers: boolean, maxPlayers: number, lateJoin: 'allow'|'spectate'|'reject' }, scoring: { speedBonus: boolean, streakBonus: boolean, negativeMarking: boolean }, shuffle: { questions: boolean, choices: boolean }, choiceOrders: Map<number, Map<string, number[]>>, questionIndex: number, questionStartedAt?: number, questionEndsAt?: number, answeredByQuestion: Map<number, Set<string>>, answers: Map<number, Map<string, { answer: { choiceIndex?: number, choiceIndices?: number[], text?: string, value?: number }, graded: boolean, correct: boolean, credit: number, delta: number, breakdown?: Record<string, number>, nickname?: string, elapsedMs: number }>>, scores: Map<string, number>, streaks: Map<string, number>, departed: Map<string, { id: string, nickname: string, team?: string }>, phaseMessage?: any, phaseTimer?: ReturnType<typeof setTimeout>, pausedRemainingMs?: number, hostGraceTimer?: ReturnType<typeof setTimeout>, locked: boolean, bannedDevices: Set<string>, pending: Map<string, { id: string, nickname: string, team?: string, deviceId?: string, ws: import('ws').WebSocket }> }>} */
 const games = new Map();
 
+/** Pending removals of disconnected players, keyed by player id. */
+/** @type {Map<string, ReturnType<typeof setTimeout>>} */
+const graceTimers = new Map();
+
 function listPlayers(pin) {
   const playersMap = rooms.get(pin);
   if (!playersMap) return [];
-  return Array.from(playersMap.values()).map(({ id, nickname }) => ({ id, nickname }));
+  return Array.from(playersMap.values()).map(({ id, nickname, connected, team, spectator }) => ({
+    id,
+    nickname,
+    connected,
+    team,
+    ...(spectator ? { spectator } : {}),
+  }));
 }
 
 function listRealPlayers(pin) {
   return listPlayers(pin).filter((p) => p.nickname !== "(host)");
 }
 
+/** Players taking part in the game: late joiners who only watch are left out. */
+function listContestants(pin) {
+  return listRealPlayers(pin).filter((p) => !p.spectator);
+}
+
+const PHASE_MESSAGE_TYPES = new Set(["starting", "question", "question_over", "game_over"]);
+
 function broadcastRoom(pin) {
   const payload = JSON.stringify({ type: "room_update", pin, players: listRealPlayers(pin) });
   const wssRoom = rooms.get(pin);
@@ -56,15 +176,124 @@ function broadcastRoom(pin) {
 }
 
 function sendToRoom(pin, payloadObj) {
+  // Remember the latest phase so (re)joining sockets can be brought up to date.
+  if (PHASE_MESSAGE_TYPES.has(payloadObj.type)) {
+    const game = games.get(pin);
+    if (game) game.phaseMessage = payloadObj;
+  }
   const payload = JSON.stringify(payloadObj);
   const wssRoom = rooms.get(pin);
   if (!wssRoom) return;
   for (const player of wssRoom.values()) {
     const ws = sockets.get(player.id);
-    if (ws && ws.readyState === WebSocket.OPEN) ws.send(payload);
+    if (!ws || ws.readyState !== WebSocket.OPEN) continue;
+    const personal = personalizePhase(pin, payloadObj, player.id);
+    ws.send(personal === payloadObj ? payload : JSON.stringify(personal));
+  }
+}
+
+/** Adds the parts of a phase message that differ per player; returns the message itself otherwise. */
+function personalizePhase(pin, payloadObj, playerId) {
+  const game = games.get(pin);
+  if (!game || playerId === game.hostId) return payloadObj;
+  if (payloadObj.type !== "question" && payloadObj.type !== "question_over") return payloadObj;
+
+  const order = choiceOrder(game, payloadObj.questionIndex, playerId);
+  const message = order ? choicesInPlayerOrder(order, payloadObj) : payloadObj;
+  if (payloadObj.type === "question") return message;
+
+  const entry = game.answers.get(payloadObj.questionIndex)?.get(playerId);
+  const you = entry
+    ? {
+        answered: true,
+        ...answerInPlayerOrder(order, entry.answer),
+        correct: entry.correct,
+        credit: entry.credit,
+        delta: entry.delta,
+        breakdown: entry.breakdown,
+      }
+    : { answered: false };
+  return { ...message, you };
+}
+
+/** Replays the current phase (and this player's answer, if any) to a single socket. */
+function sendCurrentPhase(ws, pin, playerId) {
+  const game = games.get(pin);
+  const phase = game?.phaseMessage;
+  if (!game || !phase) return;
+  ws.send(JSON.stringify({ ...personalizePhase(pin, phase, playerId), serverNow: Date.now() }));
+
+  if (phase.type !== "question") return;
+  ws.send(JSON.stringify(answerCountMessage(pin, game)));
+  if (playerId === game.hostId) {
+    const q = game.quiz?.questions?.[phase.questionIndex];
+    if (!UNGRADED_TYPES.has(questionType(q))) return;
+    const results = questionResults(game, phase.questionIndex);
+    ws.send(JSON.stringify({ type: "live_results", pin, questionIndex: phase.questionIndex, results }));
+    return;
+  }
+  const entry = game.answers.get(phase.questionIndex)?.get(playerId);
+  if (!entry) return;
+  const order = choiceOrder(game, phase.questionIndex, playerId);
+  ws.send(
+    JSON.stringify(answerResultMessage(pin, phase.questionIndex, entry, game.scores.get(playerId) ?? 0, order)),
+  );
+}
+
+/**
+ * Answers in so far, out of the players in the game. Players who dropped out still count until
+ * their grace period runs out, so a brief disconnect doesn't end the question for everyone.
+ */
+function answerCountMessage(pin, game) {
+  const answered = game.answeredByQuestion.get(game.questionIndex) ?? new Set();
+  const total = listContestants(pin).length;
+  return { type: "answer_count", pin, questionIndex: game.questionIndex, answered: answered.size, total };
+}
+
+/**
+ * Broadcasts the answer count of the open question, and ends it early when the room
+ * has auto-advance on and every player has answered.
+ */
+function updateAnswerCount(pin) {
+  const game = games.get(pin);
+  if (!game || game.state !== "running") return;
+  if (game.phaseMessage?.type !== "question") return;
+
+  const count = answerCountMessage(pin, game);
+  sendToRoom(pin, count);
+  if (game.settings.autoAdvance && count.total > 0 && count.answered >= count.total) {
+    endQuestion(pin, game.questionIndex);
   }
 }
 
+/**
+ * Ungraded answers only get an acknowledgement; graded ones get their points. Choices
+ * are echoed in the player's own `order` when they were shuffled.
+ */
+function answerResultMessage(pin, questionIndex, entry, total, order) {
+  const answer = answerInPlayerOrder(order, entry.answer);
+  if (!entry.graded) {
+    return { type: "answer_received", pin, questionIndex, ...answer };
+  }
+  return {
+    type: "answer_result",
+    pin,
+    questionIndex,
+    ...answer,
+    correct: entry.correct,
+    credit: entry.credit,
+    delta: entry.delta,
+    breakdown: entry.breakdown,
+    total,
+  };
+}
+
+function sendToHost(pin, payloadObj) {
+  const game = games.get(pin);
+  const ws = game?.hostId ? sockets.get(game.hostId) : undefined;
+  if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(payloadObj));
+}
+
 function getOrCreateGame(pin) {
   const existing = games.get(pin);
   if (existing) return existing;
@@ -72,34 +301,353 @@ function getOrCreateGame(pin) {
     hostId: undefined,
     state: "waiting",
     quiz: undefined,
+    settings: roomSettings(null),
+    scoring: scoringSettings(undefined),
+    shuffle: shuffleSettings(undefined),
+    choiceOrders: new Map(),
     questionIndex: -1,
     questionStartedAt: undefined,
     questionEndsAt: undefined,
     answeredByQuestion: new Map(),
+    answers: new Map(),
     scores: new Map(),
+    streaks: new Map(),
+    // Players who dropped out of the running game for good; they keep their score.
+    departed: new Map(),
+    phaseMessage: undefined,
+    phaseTimer: undefined,
+    pausedRemainingMs: undefined,
+    hostGraceTimer: undefined,
+    // Devices the host banned; kept for as long as the server runs, so for the whole session.
+    bannedDevices: new Set(),
+    // Set by the host; a locked room takes no new players until it is unlocked.
+    locked: false,
+    // Joiners waiting for the host to admit them, when the room requires approval.
+    pending: new Map(),
   };
   games.set(pin, next);
   return next;
 }
 
+/**
+ * Runs `fn` after `ms` as the game's next automatic step. A game has at most one pending
+ * step, so scheduling a new one (or a host pacing action) cancels the previous one.
+ */
+function schedulePhase(game, ms, fn) {
+  clearPhaseTimer(game);
+  game.phaseTimer = setTimeout(() => {
+    game.phaseTimer = undefined;
+    fn();
+  }, ms);
+}
+
+function clearPhaseTimer(game) {
+  if (game.phaseTimer) clearTimeout(game.phaseTimer);
+  game.phaseTimer = undefined;
+}
+
+function isQuestionOpen(game) {
+  return game.state === "running" && game.phaseMessage?.type === "question";
+}
+
+function scheduleQuestionEnd(pin, game) {
+  const questionIndex = game.questionIndex;
+  schedulePhase(game, Math.max(0, (game.questionEndsAt ?? 0) - Date.now()) + 50, () => {
+    endQuestion(pin, questionIndex);
+  });
+}
+
+/** Tells the room the open question's timer changed (paused, resumed or extended). */
+function broadcastQuestionTimer(pin, game) {
+  const paused = game.pausedRemainingMs !== undefined;
+  const timer = {
+    endsAt: game.questionEndsAt,
+    paused,
+    remainingMs: paused ? game.pausedRemainingMs : Math.max(0, (game.questionEndsAt ?? 0) - Date.now()),
+  };
+  // Keep the replayed question in step, so reconnecting clients see the same timer.
+  game.phaseMessage = { ...game.phaseMessage, ...timer };
+  sendToRoom(pin, { type: "question_timer", pin, serverNow: Date.now(), questionIndex: game.questionIndex, ...timer });
+}
+
+function beginGame(pin) {
+  sendToRoom(pin, { type: "game_started", pin, serverNow: Date.now() });
+  startQuestion(pin);
+}
+
+function finishGame(pin, { endedEarly = false } = {}) {
+  const game = getOrCreateGame(pin);
+  clearPhaseTimer(game);
+  game.state = "ended";
+  game.pausedRemainingMs = undefined;
+
+  const leaderboard = computeLeaderboard(pin);
+  const teamLeaderboard = computeTeamLeaderboard(pin);
+  sendToRoom(pin, {
+    type: "game_over",
+    pin,
+    serverNow: Date.now(),
+    leaderboard,
+    top3: leaderboard.slice(0, 3),
+    teamLeaderboard,
+  });
+  saveSessionResult(pin, game, { leaderboard, teamLeaderboard, endedEarly });
+}
+
+/**
+ * Saves a finished game for the host reports page, which reads it back through
+ * src/lib/results-store.ts. Games that never reached a question are skipped.
+ */
+function saveSessionResult(pin, game, { leaderboard, teamLeaderboard, endedEarly }) {
+  const questions = Array.isArray(game.quiz?.questions) ? game.quiz.questions : [];
+  const asked = questions.slice(0, game.questionIndex + 1);
+  if (asked.length === 0) return;
+
+  let record = null;
+  try {
+    record = loadRoomRecord(pin);
+  } catch {
+    // The title is only a label; fall back to the quiz topic.
+  }
+  const session = {
+    id: makeResumeToken().slice(0, 12),
+    pin,
+    title: String(record?.title ?? game.quiz?.topic ?? ""),
+    startedAt: new Date(game.startedAt ?? Date.now()).toISOString(),
+    endedAt: new Date().toISOString(),
+    endedEarly,
+    totalQuestions: questions.length,
+    players: leaderboard,
+    teamLeaderboard,
+    questions: asked.map((q, index) => ({
+      index,
+      text: String(q?.text ?? ""),
+      questionType: questionType(q),
+      choices: questionChoices(q),
+      reveal: revealAnswer(q),
+      answers: Array.from(game.answers.get(index) ?? [], ([playerId, entry]) => ({
+        playerId,
+        nickname: entry.nickname ?? "",
+        ...entry.answer,
+        graded: entry.graded,
+        correct: entry.correct,
+        credit: entry.credit,
+        delta: entry.delta,
+        elapsedMs: entry.elapsedMs,
+      })),
+    })),
+  };
+
+  try {
+    storage.addResult(session);
+  } catch (err) {
+    console.error(`Failed to save results for room ${pin}:`, err);
+  }
+}
+
+/** Everyone scored in the game: contestants still in the room and players who left it. */
+function scoredPlayers(pin, game) {
+  return [...listContestants(pin), ...game.departed.values()];
+}
+
 function computeLeaderboard(pin) {
   const game = games.get(pin);
   if (!game) return [];
-  return listRealPlayers(pin)
+  return scoredPlayers(pin, game)
     .map((p) => ({
       id: p.id,
       nickname: p.nickname,
+      team: p.team,
       score: game.scores.get(p.id) ?? 0,
     }))
     .sort((a, b) => b.score - a.score);
 }
 
-function computePoints({ correct, elapsedMs, durationMs }) {
-  if (!correct) return 0;
-  const base = 500;
-  const bonus = 500;
-  const t = Math.max(0, Math.min(1, 1 - elapsedMs / Math.max(1, durationMs)));
-  return base + Math.floor(bonus * t);
+/** Team standings in team mode (average or total of member scores); null otherwise. */
+function computeTeamLeaderboard(pin) {
+  const game = games.get(pin);
+  if (!game || !game.settings.teamMode) return null;
+  /** @type {Map<string, number[]>} */
+  const members = new Map(game.settings.teams.map((team) => [team, []]));
+  for (const p of scoredPlayers(pin, game)) members.get(p.team)?.push(game.scores.get(p.id) ?? 0);
+  return Array.from(members, ([team, scores]) => {
+    const total = scores.reduce((sum, score) => sum + score, 0);
+    const score =
+      game.settings.teamScoring === "total" || scores.length === 0 ? total : Math.round(total / scores.length);
+    return { team, score, players: scores.length };
+  }).sort((a, b) => b.score - a.score);
+}
+
+/** The requested team if the room has it, otherwise the team with the fewest players. */
+function assignTeam(pin, settings, requested) {
+  if (!settings.teamMode) return undefined;
+  const wanted = typeof requested === "string" ? requested.trim() : "";
+  if (settings.teams.includes(wanted)) return wanted;
+  const sizes = new Map(settings.teams.map((team) => [team, 0]));
+  for (const p of listRealPlayers(pin)) {
+    if (sizes.has(p.team)) sizes.set(p.team, sizes.get(p.team) + 1);
+  }
+  return settings.teams.reduce((best, team) => (sizes.get(team) < sizes.get(best) ? team : best));
+}
+
+/** Settings for the room's next game; a running game keeps the ones it started with. */
+function currentSettings(pin, game) {
+  if (game.state === "running") return game.settings;
+  try {
+    game.settings = roomSettings(loadRoomRecord(pin));
+  } catch {
+    // Keep the last known settings if the rooms file can't be read.
+  }
+  return game.settings;
+}
+
+// Mirrors `isUploadName` in src/lib/uploads.ts.
+const UPLOAD_NAME_RE = /^[a-f0-9]{32}\.(png|jpg|gif|webp)$/;
+
+/** The question's uploaded pictures, as upload names the clients turn into URLs. */
+function questionImages(q) {
+  const image = UPLOAD_NAME_RE.test(String(q?.image ?? "")) ? q.image : undefined;
+  const count = ["single", "multi", "poll"].includes(questionType(q)) ? questionChoices(q).length : 0;
+  const choiceImages = (Array.isArray(q?.choiceImages) ? q.choiceImages : [])
+    .slice(0, count)
+    .map((name) => (UPLOAD_NAME_RE.test(String(name ?? "")) ? name : ""));
+  return {
+    ...(image ? { image } : {}),
+    ...(choiceImages.some(Boolean) ? { choiceImages } : {}),
+  };
+}
+
+/** Mirrors `normalizeShuffle` in src/lib/quiz.ts. */
+function shuffleSettings(quiz) {
+  const shuffle = quiz?.shuffle;
+  return {
+    questions: shuffle?.questions === true,
+    choices: shuffle?.choices === true,
+  };
+}
+
+/** 0…count-1 in random order. */
+function shuffledIndices(count) {
+  const order = Array.from({ length: count }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+// True/false keeps its order; there's nothing to copy from two fixed choices.
+const SHUFFLED_CHOICE_TYPES = new Set(["single", "multi", "poll"]);
+
+/**
+ * The order this player sees the question's choices in, as the quiz's choice index at each
+ * position; null when they see the quiz's own order. The host always does. Picked on first
+ * use and kept for the session, so a reconnect shows the same order.
+ */
+function choiceOrder(game, questionIndex, playerId) {
+  if (!game.shuffle.choices || !playerId || playerId === game.hostId) return null;
+  const q = Array.isArray(game.quiz?.questions) ? game.quiz.questions[questionIndex] : undefined;
+  if (!SHUFFLED_CHOICE_TYPES.has(questionType(q))) return null;
+
+  let orders = game.choiceOrders.get(questionIndex);
+  if (!orders) {
+    orders = new Map();
+    game.choiceOrders.set(questionIndex, orders);
+  }
+  let order = orders.get(playerId);
+  if (!order) {
+    order = shuffledIndices(questionChoices(q).length);
+    orders.set(playerId, order);
+  }
+  return order;
+}
+
+/** A `question` or `question_over` message with everything indexed by choice put in `order`. */
+function choicesInPlayerOrder(order, payloadObj) {
+  const { choices, choiceImages, reveal, results } = payloadObj;
+  return {
+    ...payloadObj,
+    choices: order.map((i) => choices[i]),
+    ...(choiceImages ? { choiceImages: order.map((i) => choiceImages[i] ?? "") } : {}),
+    ...(Array.isArray(reveal?.correctIndices)
+      ? { reveal: { ...reveal, correctIndices: toPlayerIndices(order, reveal.correctIndices) } }
+      : {}),
+    ...(Array.isArray(results?.counts)
+      ? { results: { ...results, counts: order.map((i) => results.counts[i]) } }
+      : {}),
+  };
+}
+
+function toPlayerIndices(order, indices) {
+  return indices.map((i) => order.indexOf(i)).sort((a, b) => a - b);
+}
+
+/** A stored answer with its picks moved to where this player saw them. */
+function answerInPlayerOrder(order, answer) {
+  if (!order) return answer;
+  return {
+    ...answer,
+    ...(typeof answer.choiceIndex === "number" ? { choiceIndex: order.indexOf(answer.choiceIndex) } : {}),
+    ...(Array.isArray(answer.choiceIndices) ? { choiceIndices: toPlayerIndices(order, answer.choiceIndices) } : {}),
+  };
+}
+
+/** An `answer` message with the player's picks turned back into the quiz's choice indices. */
+function answerFromPlayerOrder(order, msg) {
+  if (!order) return msg;
+  // Anything that isn't a position on screen maps to undefined, which grading rejects.
+  const toQuizIndex = (i) => (Number.isInteger(i) ? order[i] : undefined);
+  return {
+    ...msg,
+    ...(msg?.choiceIndex !== undefined ? { choiceIndex: toQuizIndex(msg.choiceIndex) } : {}),
+    ...(Array.isArray(msg?.choiceIndices) ? { choiceIndices: msg.choiceIndices.map(toQuizIndex) } : {}),
+  };
+}
+
+function sliderSpread(game, questionIndex, q) {
+  const values = Array.from(game.answers.get(questionIndex)?.values() ?? [])
+    .map((entry) => entry.answer.value)
+    .filter((v) => typeof v === "number")
+    .sort((a, b) => a - b);
+  return { ...sliderSettings(q), correctValue: q?.correctValue, values };
+}
+
+/**
+ * How the room answered: picks per choice, or typed answers grouped and counted.
+ * Slider answers are summarized by `sliderSpread` instead.
+ */
+function questionResults(game, questionIndex) {
+  const q = Array.isArray(game.quiz?.questions) ? game.quiz.questions[questionIndex] : undefined;
+  const entries = Array.from(game.answers.get(questionIndex)?.values() ?? []);
+  const type = questionType(q);
+  if (type === "word_cloud" || type === "type_answer") {
+    return { words: groupWords(entries.map((entry) => entry.answer.text)), total: entries.length };
+  }
+  if (type === "slider") return { total: entries.length };
+
+  const counts = questionChoices(q).map(() => 0);
+  for (const entry of entries) {
+    const picked = entry.answer.choiceIndices ?? [entry.answer.choiceIndex];
+    for (const i of picked) counts[i] += 1;
+  }
+  return { counts, total: entries.length };
+}
+
+/** The correct answer in a shape every question type can share; null for ungraded questions. */
+function revealAnswer(q) {
+  const type = questionType(q);
+  if (type === "single" || type === "true_false") {
+    return { correctIndices: Number.isInteger(q?.correctIndex) ? [q.correctIndex] : [] };
+  }
+  if (type === "multi") {
+    const correct = Array.isArray(q?.correctIndices) ? q.correctIndices.filter(Number.isInteger) : [];
+    return { correctIndices: [...correct].sort((a, b) => a - b) };
+  }
+  if (type === "type_answer") {
+    return { acceptedAnswers: Array.isArray(q?.acceptedAnswers) ? q.acceptedAnswers : [] };
+  }
+  if (type === "slider") return { correctValue: q?.correctValue, unit: sliderSettings(q).unit };
+  return null;
 }
 
 function endQuestion(pin, questionIndex) {
@@ -107,26 +655,44 @@ function endQuestion(pin, questionIndex) {
   if (!game) return;
   if (game.state !== "running") return;
   if (game.questionIndex !== questionIndex) return;
+  // The question may already have ended early because everyone answered.
+  if (game.phaseMessage?.type !== "question") return;
 
   const leaderboard = computeLeaderboard(pin);
-  const nextQuestionAt = Date.now() + INTERMISSION_MS;
+  const now = Date.now();
+  game.questionEndsAt = Math.min(game.questionEndsAt ?? now, now);
+  game.pausedRemainingMs = undefined;
+  const nextQuestionAt = now + INTERMISSION_MS;
+  const q = Array.isArray(game.quiz?.questions) ? game.quiz.questions[questionIndex] : undefined;
+  if (!UNGRADED_TYPES.has(questionType(q)) && pointsMultiplier(q) > 0) {
+    // Not answering breaks a streak just like a wrong answer.
+    const answered = game.answeredByQuestion.get(questionIndex) ?? new Set();
+    for (const p of listContestants(pin)) if (!answered.has(p.id)) game.streaks.set(p.id, 0);
+  }
   sendToRoom(pin, {
     type: "question_over",
     pin,
-    serverNow: Date.now(),
+    serverNow: now,
     questionIndex,
+    text: String(q?.text ?? ""),
+    questionType: questionType(q),
+    choices: questionChoices(q),
+    ...questionImages(q),
+    reveal: revealAnswer(q),
+    results: questionResults(game, questionIndex),
+    ...(questionType(q) === "slider" ? { spread: sliderSpread(game, questionIndex, q) } : {}),
+    rankingAt: Math.min(now + REVEAL_MS, nextQuestionAt),
     nextQuestionAt,
     leaderboard,
     top3: leaderboard.slice(0, 3),
+    teamLeaderboard: computeTeamLeaderboard(pin),
   });
 
-  setTimeout(() => {
-    const g = games.get(pin);
-    if (!g) return;
-    if (g.state !== "running") return;
-    if (g.questionIndex !== questionIndex) return;
+  schedulePhase(game, INTERMISSION_MS, () => {
+    if (game.state !== "running") return;
+    if (game.questionIndex !== questionIndex) return;
     startQuestion(pin);
-  }, INTERMISSION_MS);
+  });
 }
 
 function startQuestion(pin) {
@@ -135,16 +701,7 @@ function startQuestion(pin) {
   const questions = Array.isArray(quiz?.questions) ? quiz.questions : [];
   const nextIndex = game.questionIndex + 1;
   if (nextIndex >= questions.length) {
-    game.state = "ended";
-
-    const leaderboard = computeLeaderboard(pin);
-    sendToRoom(pin, {
-      type: "game_over",
-      pin,
-      serverNow: Date.now(),
-      leaderboard,
-      top3: leaderboard.slice(0, 3),
-    });
+    finishGame(pin);
     return;
   }
 
@@ -158,7 +715,9 @@ function startQuestion(pin) {
   game.questionIndex = nextIndex;
   game.questionStartedAt = startedAt;
   game.questionEndsAt = endsAt;
+  game.pausedRemainingMs = undefined;
   if (!game.answeredByQuestion.has(nextIndex)) game.answeredByQuestion.set(nextIndex, new Set());
+  if (!game.answers.has(nextIndex)) game.answers.set(nextIndex, new Map());
 
   sendToRoom(pin, {
     type: "question",
@@ -167,18 +726,23 @@ function startQuestion(pin) {
     questionIndex: nextIndex,
     totalQuestions: questions.length,
     text: String(q?.text ?? ""),
-    choices: Array.isArray(q?.choices) ? q.choices : ["", "", "", ""],
+    questionType: questionType(q),
+    choices: questionChoices(q),
+    ...questionImages(q),
+    ...(questionType(q) === "slider" ? { slider: sliderSettings(q) } : {}),
+    pointsMultiplier: pointsMultiplier(q),
     endsAt,
+    paused: false,
+    remainingMs: durationMs,
   });
-
-  setTimeout(() => {
-    endQuestion(pin, nextIndex);
-  }, durationMs + 50);
+  sendToRoom(pin, answerCountMessage(pin, game));
+  scheduleQuestionEnd(pin, game);
 }
 
 function uniqueNickname(pin, desiredNickname) {
   const base = desiredNickname.trim().slice(0, 24) || "Player";
-  const players = listPlayers(pin);
+  // Names waiting for approval are taken too, so admitting a player never clashes.
+  const players = [...listPlayers(pin), ...(games.get(pin)?.pending.values() ?? [])];
   if (!players.some((p) => p.nickname === base)) return base;
   for (let i = 2; i < 999; i++) {
     const candidate = `${base} ${i}`;
@@ -191,6 +755,168 @@ function makeId() {
   return Math.random().toString(36).slice(2, 10);
 }
 
+function makeResumeToken() {
+  return randomBytes(16).toString("hex");
+}
+
+function removePlayer(pin, id) {
+  graceTimers.delete(id);
+
+  const roomPlayers = rooms.get(pin);
+  if (roomPlayers) {
+    roomPlayers.delete(id);
+    if (roomPlayers.size === 0) rooms.delete(pin);
+    else broadcastRoom(pin);
+  }
+
+  const game = games.get(pin);
+  if (game) {
+    game.scores.delete(id);
+    game.streaks.delete(id);
+    const answered = game.answeredByQuestion.get(game.questionIndex);
+    if (answered) answered.delete(id);
+    game.answers.get(game.questionIndex)?.delete(id);
+    updateAnswerCount(pin);
+  }
+}
+
+/**
+ * Drops a player whose reconnect grace period ran out. Mid-game they stay on the leaderboard
+ * and in the saved results with the score they earned; only the live roster loses them.
+ */
+function expirePlayer(pin, id) {
+  const game = games.get(pin);
+  const player = rooms.get(pin)?.get(id);
+  if (!game || !player || game.state !== "running" || !game.scores.has(id)) {
+    removePlayer(pin, id);
+    return;
+  }
+  graceTimers.delete(id);
+  game.departed.set(id, { id, nickname: player.nickname, team: player.team });
+  game.streaks.delete(id);
+  // Their answer stays in the results but no longer counts towards the live answer count.
+  game.answeredByQuestion.get(game.questionIndex)?.delete(id);
+  const roomPlayers = rooms.get(pin);
+  roomPlayers.delete(id);
+  if (roomPlayers.size === 0) rooms.delete(pin);
+  else broadcastRoom(pin);
+  updateAnswerCount(pin);
+}
+
+/** Removes a player the host kicked or banned, tells them why and closes their connection. */
+function kickPlayer(pin, id, banned) {
+  const graceTimer = graceTimers.get(id);
+  if (graceTimer) clearTimeout(graceTimer);
+  // Forgetting the socket first keeps its close handler from treating this as a disconnect.
+  const ws = sockets.get(id);
+  sockets.delete(id);
+  removePlayer(pin, id);
+  if (ws?.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ type: "kicked", pin, banned }));
+  ws?.close();
+}
+
+/** Whether a game is past its countdown, so that someone joining now has missed questions. */
+function isUnderway(game) {
+  return game.state === "running" && game.questionIndex >= 0;
+}
+
+/**
+ * Everyone holding a place in the room: watchers, players who may still reconnect and
+ * joiners awaiting approval count too.
+ */
+function seatsTaken(pin, game) {
+  return listRealPlayers(pin).length + game.pending.size;
+}
+
+/**
+ * Why a new player can't join right now, as the error code sent back; null when they can.
+ * Players resuming their own session are never turned away.
+ */
+function joinBlock(pin, game) {
+  const settings = currentSettings(pin, game);
+  if (game.locked) return "ROOM_LOCKED";
+  if (isUnderway(game) && settings.lateJoin === "reject") return "GAME_IN_PROGRESS";
+  if (settings.maxPlayers > 0 && seatsTaken(pin, game) >= settings.maxPlayers) return "ROOM_FULL";
+  return null;
+}
+
+/** Mirrors `JOIN_BLOCK_MESSAGES` in src/lib/room-settings.ts. */
+const JOIN_BLOCK_MESSAGES = {
+  ROOM_LOCKED: "The host has locked this game. Ask them to unlock it, then try again.",
+  ROOM_FULL: "This game is full.",
+  GAME_IN_PROGRESS: "This game has already started and isn't taking late joiners.",
+};
+
+/** Players waiting for the host to admit them, oldest first. */
+function listPending(pin) {
+  const game = games.get(pin);
+  return Array.from(game?.pending.values() ?? [], ({ id, nickname, team }) => ({ id, nickname, team }));
+}
+
+function sendPendingPlayers(pin) {
+  sendToHost(pin, { type: "pending_players", pin, players: listPending(pin) });
+}
+
+/** Turns down a joiner waiting for approval; `banned` also keeps their device out. */
+function declinePending(pin, id, banned) {
+  const pending = games.get(pin)?.pending;
+  const entry = pending?.get(id);
+  if (!entry) return;
+  pending.delete(id);
+  if (entry.ws.readyState === WebSocket.OPEN) {
+    entry.ws.send(JSON.stringify(banned ? { type: "kicked", pin, banned } : { type: "join_declined", pin }));
+  }
+  entry.ws.close();
+  sendPendingPlayers(pin);
+}
+
+/**
+ * Adds a joiner to the room, welcomes them and catches them up with the game. In a room
+ * that lets late joiners only spectate, someone joining mid-game watches until the next one.
+ */
+function addPlayer(ws, pin, { id, nickname, team: requestedTeam, deviceId }) {
+  const game = getOrCreateGame(pin);
+  const settings = currentSettings(pin, game);
+  const spectator = isUnderway(game) && settings.lateJoin === "spectate";
+  if (!spectator && !game.scores.has(id)) game.scores.set(id, 0);
+
+  const roomPlayers = rooms.get(pin) ?? new Map();
+  rooms.set(pin, roomPlayers);
+
+  const resumeToken = makeResumeToken();
+  const team = assignTeam(pin, settings, requestedTeam);
+  roomPlayers.set(id, {
+    id,
+    nickname,
+    resumeToken,
+    deviceId,
+    connected: true,
+    team,
+    ...(spectator ? { spectator } : {}),
+  });
+  sockets.set(id, ws);
+
+  ws.send(
+    JSON.stringify({
+      type: "welcome",
+      protocolVersion: PROTOCOL_VERSION,
+      id,
+      pin,
+      serverNow: Date.now(),
+      nickname,
+      team,
+      resumeToken,
+      resumed: false,
+      spectator,
+      score: game.scores.get(id) ?? 0,
+      players: listRealPlayers(pin),
+    }),
+  );
+  broadcastRoom(pin);
+  sendCurrentPhase(ws, pin, id);
+  updateAnswerCount(pin);
+}
+
 /** @type {Map<string, import('ws').WebSocket>} */
 const sockets = new Map();
 
@@ -201,9 +927,30 @@ const server = http.createServer((req, res) => {
     return;
   }
   if (req.url === "/reload") {
-    allowedPins = loadAllowedPins();
     res.writeHead(200, { "content-type": "application/json" });
-    res.end(JSON.stringify({ ok: true, pins: Array.from(allowedPins) }));
+    // Only a count: listing the PINs would let anyone browse every room.
+    res.end(JSON.stringify({ ok: true, rooms: loadAllowedPins().size }));
+    return;
+  }
+  // Asked by the Next API before it saves an edit to a room's quiz.
+  const gameMatch = /^\/games\/([\w-]+)$/.exec(req.url ?? "");
+  if (gameMatch) {
+    // The Next API only asks about rooms it has found, so only guessers hit the limit.
+    if (!roomExists(gameMatch[1]) && pinMissLimited(requestAddress(req))) {
+      res.writeHead(429, { "content-type": "application/json" });
+      res.end(JSON.stringify({ ok: false, error: "RATE_LIMITED" }));
+      return;
+    }
+    res.writeHead(200, { "content-type": "application/json" });
+    const game = games.get(gameMatch[1]);
+    res.end(
+      JSON.stringify({
+        ok: true,
+        running: game?.state === "running",
+        // Lets the join page explain a refusal before the player gets to the lobby.
+        joinBlock: game ? joinBlock(gameMatch[1], game) : null,
+      }),
+    );
     return;
   }
   res.writeHead(404, { "content-type": "text/plain" });
@@ -212,31 +959,76 @@ const server = http.createServer((req, res) => {
 
 const wss = new WebSocketServer({ server });
 
-wss.on("connection", (ws) => {
+wss.on("connection", (ws, req) => {
   /** @type {{id?: string, pin?: string}} */
   const state = {};
+  const address = requestAddress(req);
+
+  function sendError(code, message) {
+    ws.send(JSON.stringify({ type: "error", code, message }));
+  }
+
+  function rejectPin() {
+    if (pinMissLimited(address)) sendError("RATE_LIMITED", "Too many wrong PINs. Wait a few minutes, then try again.");
+    else sendError("INVALID_PIN", "Invalid game PIN");
+  }
+
+  /** The game `msg` targets, when this socket is its host; otherwise replies with an error. */
+  function requireHost(msg) {
+    const pin = msg.pin.trim();
+    if (!pin || state.pin !== pin) {
+      sendError("NOT_IN_ROOM", "Invalid PIN");
+      return null;
+    }
+    const game = getOrCreateGame(pin);
+    if (!state.id || game.hostId !== state.id) {
+      sendError("NOT_HOST", "Not host");
+      return null;
+    }
+    return { pin, game };
+  }
 
   ws.on("message", (data) => {
-    let msg;
-    try {
-      msg = JSON.parse(data.toString());
-    } catch {
-      ws.send(JSON.stringify({ type: "error", message: "Invalid JSON" }));
+    const parsed = parseClientMessage(data.toString());
+    if (!parsed.ok) {
+      sendError(parsed.code, parsed.error);
+      return;
+    }
+    const msg = parsed.message;
+    // Only the first message of a connection carries a version; pages from before versioning send none.
+    if (msg.v !== undefined && msg.v !== PROTOCOL_VERSION) {
+      sendError("PROTOCOL_VERSION", "This page is out of date. Reload it to join the game.");
       return;
     }
 
-    if (msg?.type === "join") {
-      const pin = typeof msg?.pin === "string" ? msg.pin.trim() : "";
-      const nickname = typeof msg?.nickname === "string" ? msg.nickname : "";
+    if (msg.type === "join") {
+      const pin = msg.pin.trim();
+      const nickname = msg.nickname ?? "";
 
-      try {
-        allowedPins = loadAllowedPins();
-      } catch {
-        // Keep existing cache if reload fails.
+      if (!isJoinablePin(pin)) {
+        rejectPin();
+        return;
+      }
+
+      const game = getOrCreateGame(pin);
+      if (msg.deviceId && game.bannedDevices.has(msg.deviceId)) {
+        sendError("BANNED", "The host removed you from this game");
+        return;
       }
 
-      if (!allowedPins.has(pin)) {
-        ws.send(JSON.stringify({ type: "error", code: "INVALID_PIN", message: "Invalid game PIN" }));
+      const block = joinBlock(pin, game);
+      if (block) {
+        sendError(block, JOIN_BLOCK_MESSAGES[block]);
+        return;
+      }
+
+      const settings = currentSettings(pin, game);
+      const problem = nicknameProblem(nickname, {
+        filterWords: settings.filterNicknames,
+        extraWords: EXTRA_BLOCKED_WORDS,
+      });
+      if (problem) {
+        sendError("NICKNAME_REJECTED", problem);
         return;
       }
 
@@ -244,65 +1036,83 @@ wss.on("connection", (ws) => {
       state.id = id;
       state.pin = pin;
 
-      const game = getOrCreateGame(pin);
-      if (!game.scores.has(id)) game.scores.set(id, 0);
+      const player = { id, nickname: uniqueNickname(pin, nickname), team: msg.team, deviceId: msg.deviceId };
+      if (settings.approvePlayers) {
+        game.pending.set(id, { ...player, ws });
+        ws.send(JSON.stringify({ type: "join_pending", pin, nickname: player.nickname }));
+        sendPendingPlayers(pin);
+        return;
+      }
+      addPlayer(ws, pin, player);
+      return;
+    }
 
-      const roomPlayers = rooms.get(pin) ?? new Map();
-      rooms.set(pin, roomPlayers);
+    if (msg.type === "resume") {
+      const pin = msg.pin.trim();
+      const resumeToken = msg.resumeToken;
 
-      const finalNickname = uniqueNickname(pin, nickname);
-      roomPlayers.set(id, { id, nickname: finalNickname });
-      sockets.set(id, ws);
+      const roomPlayers = rooms.get(pin);
+      const player = resumeToken
+        ? Array.from(roomPlayers?.values() ?? []).find((p) => p.resumeToken === resumeToken)
+        : undefined;
+      if (!roomPlayers || !player) {
+        sendError("RESUME_INVALID", "Session expired");
+        return;
+      }
+
+      const graceTimer = graceTimers.get(player.id);
+      if (graceTimer) clearTimeout(graceTimer);
+      graceTimers.delete(player.id);
+
+      // The same player may still hold an older socket (e.g. a half-open connection).
+      const previous = sockets.get(player.id);
+      sockets.set(player.id, ws);
+      if (previous && previous !== ws) {
+        if (previous.readyState === WebSocket.OPEN) {
+          previous.send(
+            JSON.stringify({ type: "error", code: "SESSION_REPLACED", message: "Joined from another window" }),
+          );
+        }
+        previous.close();
+      }
 
+      state.id = player.id;
+      state.pin = pin;
+      player.connected = true;
+
+      const game = getOrCreateGame(pin);
       ws.send(
         JSON.stringify({
           type: "welcome",
-          id,
+          protocolVersion: PROTOCOL_VERSION,
+          id: player.id,
           pin,
           serverNow: Date.now(),
-          nickname: finalNickname,
+          nickname: player.nickname,
+          team: player.team,
+          resumeToken,
+          resumed: true,
+          spectator: player.spectator === true,
+          score: game.scores.get(player.id) ?? 0,
           players: listRealPlayers(pin),
         }),
       );
       broadcastRoom(pin);
-
-      const existingGame = games.get(pin);
-      if (existingGame?.state === "running" && typeof existingGame.questionEndsAt === "number") {
-        const quiz = existingGame.quiz;
-        const questions = Array.isArray(quiz?.questions) ? quiz.questions : [];
-        const q = questions[existingGame.questionIndex];
-        ws.send(
-          JSON.stringify({
-            type: "question",
-            pin,
-            serverNow: Date.now(),
-            questionIndex: existingGame.questionIndex,
-            totalQuestions: questions.length,
-            text: String(q?.text ?? ""),
-            choices: Array.isArray(q?.choices) ? q.choices : ["", "", "", ""],
-            endsAt: existingGame.questionEndsAt,
-          }),
-        );
-      }
+      sendCurrentPhase(ws, pin, player.id);
+      updateAnswerCount(pin);
       return;
     }
 
-    if (msg?.type === "host_join") {
-      const pin = typeof msg?.pin === "string" ? msg.pin.trim() : "";
-      const hostKey = typeof msg?.hostKey === "string" ? msg.hostKey.trim() : "";
+    if (msg.type === "host_join") {
+      const pin = msg.pin.trim();
+      const hostKey = msg.hostKey.trim();
       if (!pin || !hostKey) {
-        ws.send(JSON.stringify({ type: "error", message: "Missing PIN or host key" }));
+        sendError("INVALID_MESSAGE", "Missing PIN or host key");
         return;
       }
 
-      try {
-        allowedPins = loadAllowedPins();
-      } catch {
-        // ignore
-      }
-
-      if (!allowedPins.has(pin)) {
-        ws.send(JSON.stringify({ type: "error", code: "INVALID_PIN", message: "Invalid game PIN" }));
+      if (!isJoinablePin(pin)) {
+        rejectPin();
         return;
       }
 
@@ -313,10 +1123,30 @@ wss.on("connection", (ws) => {
         record = null;
       }
       if (!record || record.hostKey !== hostKey) {
-        ws.send(JSON.stringify({ type: "error", code: "HOST_KEY_INVALID", message: "Invalid host key" }));
+        sendError("HOST_KEY_INVALID", "Invalid host key");
         return;
       }
 
+      const game = getOrCreateGame(pin);
+      if (game.hostGraceTimer) {
+        clearTimeout(game.hostGraceTimer);
+        game.hostGraceTimer = undefined;
+      }
+
+      // A second host tab (or a half-open old connection) is taken over by the new one.
+      const previousHostId = game.hostId;
+      if (previousHostId) {
+        const previous = sockets.get(previousHostId);
+        sockets.delete(previousHostId);
+        removePlayer(pin, previousHostId);
+        if (previous && previous.readyState === WebSocket.OPEN) {
+          previous.send(
+            JSON.stringify({ type: "error", code: "HOST_REPLACED", message: "Host opened in another window" }),
+          );
+        }
+        previous?.close();
+      }
+
       const id = makeId();
       state.id = id;
       state.pin = pin;
@@ -324,144 +1154,326 @@ wss.on("connection", (ws) => {
 
       const roomPlayers = rooms.get(pin) ?? new Map();
       rooms.set(pin, roomPlayers);
-      roomPlayers.set(id, { id, nickname: "(host)" });
+      roomPlayers.set(id, { id, nickname: "(host)", connected: true });
 
-      const game = getOrCreateGame(pin);
       game.hostId = id;
-      game.quiz = record.quiz;
+      // Keep the quiz a running game was started with, even if the room was edited since.
+      if (game.state !== "running") {
+        game.quiz = record.quiz;
+        game.settings = roomSettings(record);
+      }
 
       ws.send(
         JSON.stringify({
           type: "host_welcome",
+          protocolVersion: PROTOCOL_VERSION,
           id,
           pin,
           serverNow: Date.now(),
           players: listRealPlayers(pin),
           state: game.state,
           questionIndex: game.questionIndex,
+          locked: game.locked,
         }),
       );
       broadcastRoom(pin);
+      sendToRoom(pin, { type: "host_status", pin, connected: true });
+      sendCurrentPhase(ws, pin, id);
+      sendPendingPlayers(pin);
       return;
     }
 
-    if (msg?.type === "host_start") {
-      const pin = typeof msg?.pin === "string" ? msg.pin.trim() : "";
-      if (!pin || state.pin !== pin) {
-        ws.send(JSON.stringify({ type: "error", message: "Invalid PIN" }));
-        return;
-      }
-      const game = getOrCreateGame(pin);
-      if (!state.id || game.hostId !== state.id) {
-        ws.send(JSON.stringify({ type: "error", message: "Not host" }));
-        return;
+    if (msg.type === "host_start") {
+      const host = requireHost(msg);
+      if (!host) return;
+      const { pin, game } = host;
+      // Pick up edits saved while the host was waiting in the lobby.
+      try {
+        const record = loadRoomRecord(pin);
+        if (record?.quiz) {
+          game.quiz = record.quiz;
+          game.settings = roomSettings(record);
+        }
+      } catch {
+        // Keep the quiz loaded at host_join.
       }
       if (!game.quiz || !Array.isArray(game.quiz?.questions) || game.quiz.questions.length === 0) {
-        ws.send(JSON.stringify({ type: "error", message: "No quiz found" }));
+        sendError("NO_QUIZ", "No quiz found");
         return;
       }
 
       game.state = "running";
+      game.startedAt = Date.now();
       game.questionIndex = -1;
       game.questionStartedAt = undefined;
       game.questionEndsAt = undefined;
+      game.pausedRemainingMs = undefined;
       game.answeredByQuestion = new Map();
+      game.answers = new Map();
       // Reset scores for a fresh run.
       game.scores = new Map();
-      for (const p of listRealPlayers(pin)) game.scores.set(p.id, 0);
+      game.streaks = new Map();
+      game.departed = new Map();
+      game.scoring = scoringSettings(game.quiz);
+      game.shuffle = shuffleSettings(game.quiz);
+      game.choiceOrders = new Map();
+      if (game.shuffle.questions) {
+        // Everything after this, results included, follows the session's order.
+        const questions = game.quiz.questions;
+        game.quiz = { ...game.quiz, questions: shuffledIndices(questions.length).map((i) => questions[i]) };
+      }
+      // Late joiners who watched the last game play in this one.
+      for (const p of rooms.get(pin)?.values() ?? []) delete p.spectator;
+      for (const p of listContestants(pin)) game.scores.set(p.id, 0);
+      broadcastRoom(pin);
 
       const startsAt = Date.now() + PRE_START_MS;
       sendToRoom(pin, { type: "starting", pin, serverNow: Date.now(), startsAt });
-      setTimeout(() => {
-        const g = games.get(pin);
-        if (!g) return;
-        if (g.state !== "running") return;
-        // If another start happened, ignore this timer.
-        if (g.questionIndex !== -1) return;
-
-        sendToRoom(pin, { type: "game_started", pin, serverNow: Date.now() });
+      schedulePhase(game, PRE_START_MS, () => {
+        if (game.state !== "running") return;
+        beginGame(pin);
+      });
+      return;
+    }
+
+    if (msg.type === "host_pause") {
+      const host = requireHost(msg);
+      if (!host) return;
+      const { pin, game } = host;
+      if (!isQuestionOpen(game) || game.pausedRemainingMs !== undefined) return;
+      clearPhaseTimer(game);
+      game.pausedRemainingMs = Math.max(0, (game.questionEndsAt ?? 0) - Date.now());
+      broadcastQuestionTimer(pin, game);
+      return;
+    }
+
+    if (msg.type === "host_resume") {
+      const host = requireHost(msg);
+      if (!host) return;
+      const { pin, game } = host;
+      if (!isQuestionOpen(game) || game.pausedRemainingMs === undefined) return;
+      const endsAt = Date.now() + game.pausedRemainingMs;
+      // Shift the start too, so time spent paused doesn't eat into speed bonuses.
+      game.questionStartedAt = (game.questionStartedAt ?? 0) + (endsAt - (game.questionEndsAt ?? endsAt));
+      game.questionEndsAt = endsAt;
+      game.pausedRemainingMs = undefined;
+      scheduleQuestionEnd(pin, game);
+      broadcastQuestionTimer(pin, game);
+      return;
+    }
+
+    if (msg.type === "host_extend") {
+      const host = requireHost(msg);
+      if (!host) return;
+      const { pin, game } = host;
+      if (!isQuestionOpen(game)) return;
+      const requestedMs = msg.seconds !== undefined ? msg.seconds * 1000 : DEFAULT_EXTEND_MS;
+      const extraMs = Math.max(1000, Math.min(MAX_EXTEND_MS, Math.round(requestedMs) || DEFAULT_EXTEND_MS));
+      game.questionEndsAt = (game.questionEndsAt ?? Date.now()) + extraMs;
+      if (game.pausedRemainingMs !== undefined) {
+        game.pausedRemainingMs += extraMs;
+      } else {
+        scheduleQuestionEnd(pin, game);
+      }
+      broadcastQuestionTimer(pin, game);
+      return;
+    }
+
+    if (msg.type === "host_skip") {
+      const host = requireHost(msg);
+      if (!host) return;
+      const { pin, game } = host;
+      // Ends the open question now; answers given so far still count.
+      if (!isQuestionOpen(game)) return;
+      endQuestion(pin, game.questionIndex);
+      return;
+    }
+
+    if (msg.type === "host_next") {
+      const host = requireHost(msg);
+      if (!host) return;
+      const { pin, game } = host;
+      if (game.state !== "running") return;
+      // Cuts the pre-start countdown or the intermission short.
+      if (game.phaseMessage?.type === "starting") {
+        clearPhaseTimer(game);
+        beginGame(pin);
+      } else if (game.phaseMessage?.type === "question_over") {
+        clearPhaseTimer(game);
         startQuestion(pin);
-      }, PRE_START_MS);
+      }
+      return;
+    }
+
+    if (msg.type === "host_end") {
+      const host = requireHost(msg);
+      if (!host) return;
+      const { pin, game } = host;
+      if (game.state !== "running") return;
+      finishGame(pin, { endedEarly: true });
+      return;
+    }
+
+    if (msg.type === "host_kick" || msg.type === "host_ban") {
+      const host = requireHost(msg);
+      if (!host) return;
+      const { pin, game } = host;
+
+      const banned = msg.type === "host_ban";
+      const pending = game.pending.get(msg.playerId);
+      if (pending) {
+        if (banned && pending.deviceId) game.bannedDevices.add(pending.deviceId);
+        declinePending(pin, pending.id, banned);
+        return;
+      }
+
+      // The player may have left already; nothing to do then.
+      const player = rooms.get(pin)?.get(msg.playerId);
+      if (!player || player.id === game.hostId) return;
+
+      if (banned && player.deviceId) game.bannedDevices.add(player.deviceId);
+      kickPlayer(pin, player.id, banned);
+      return;
+    }
+
+    if (msg.type === "host_lock") {
+      const host = requireHost(msg);
+      if (!host) return;
+      host.game.locked = msg.locked;
+      sendToHost(host.pin, { type: "lobby_locked", pin: host.pin, locked: msg.locked });
+      return;
+    }
+
+    if (msg.type === "host_admit") {
+      const host = requireHost(msg);
+      if (!host) return;
+      const { pin, game } = host;
+
+      const entry = game.pending.get(msg.playerId);
+      if (!entry) return;
+      game.pending.delete(msg.playerId);
+      if (entry.ws.readyState === WebSocket.OPEN) addPlayer(entry.ws, pin, entry);
+      sendPendingPlayers(pin);
       return;
     }
 
-    if (msg?.type === "answer") {
-      const pin = typeof msg?.pin === "string" ? msg.pin.trim() : "";
-      const questionIndex = typeof msg?.questionIndex === "number" ? msg.questionIndex : -1;
-      const choiceIndex = typeof msg?.choiceIndex === "number" ? msg.choiceIndex : -1;
+    if (msg.type === "host_decline") {
+      const host = requireHost(msg);
+      if (!host) return;
+      declinePending(host.pin, msg.playerId, false);
+      return;
+    }
+
+    if (msg.type === "answer") {
+      const pin = msg.pin.trim();
+      const questionIndex = msg.questionIndex;
       if (!pin || !state.id || state.pin !== pin) return;
+      // Joiners still waiting for approval, and late joiners who only watch, aren't playing.
+      const member = rooms.get(pin)?.get(state.id);
+      if (!member || member.spectator) return;
 
       const game = games.get(pin);
       if (!game || game.state !== "running") return;
       if (questionIndex !== game.questionIndex) return;
-      if (choiceIndex < 0 || choiceIndex > 3) return;
       if (typeof game.questionStartedAt !== "number" || typeof game.questionEndsAt !== "number") return;
 
       // Ignore late answers (clients may have clock skew; server enforces the timer).
       if (Date.now() > game.questionEndsAt) return;
+      if (game.pausedRemainingMs !== undefined) return;
+
+      const quiz = game.quiz;
+      const questions = Array.isArray(quiz?.questions) ? quiz.questions : [];
+      const q = questions[questionIndex];
+      const order = choiceOrder(game, questionIndex, state.id);
+      const graded = gradeAnswer(q, answerFromPlayerOrder(order, msg));
+      if (!graded) return;
 
       const answeredSet = game.answeredByQuestion.get(questionIndex) ?? new Set();
       if (answeredSet.has(state.id)) return;
       answeredSet.add(state.id);
       game.answeredByQuestion.set(questionIndex, answeredSet);
 
-      const quiz = game.quiz;
-      const questions = Array.isArray(quiz?.questions) ? quiz.questions : [];
-      const q = questions[questionIndex];
-      const correctIndex = typeof q?.correctIndex === "number" ? q.correctIndex : -1;
-      const correct = choiceIndex === correctIndex;
       const now = Date.now();
       const elapsedMs = now - game.questionStartedAt;
       const durationMs = game.questionEndsAt - game.questionStartedAt;
-      const delta = computePoints({ correct, elapsedMs, durationMs });
-      const nextScore = (game.scores.get(state.id) ?? 0) + delta;
+      const multiplier = pointsMultiplier(q);
+      const nickname = rooms.get(pin)?.get(state.id)?.nickname;
+      let entry = { ...graded, delta: 0, nickname, elapsedMs };
+      if (graded.graded) {
+        const streak = graded.correct ? (game.streaks.get(state.id) ?? 0) + 1 : 0;
+        // "No points" questions neither build nor break a streak.
+        if (multiplier > 0) game.streaks.set(state.id, streak);
+        const points = computePoints({
+          credit: graded.credit,
+          correct: graded.correct,
+          elapsedMs,
+          durationMs,
+          streak,
+          scoring: game.scoring,
+          multiplier,
+        });
+        entry = { ...entry, delta: points.delta, breakdown: points.breakdown };
+      }
+      const nextScore = (game.scores.get(state.id) ?? 0) + entry.delta;
       game.scores.set(state.id, nextScore);
+      game.answers.get(questionIndex)?.set(state.id, entry);
 
-      ws.send(
-        JSON.stringify({
-          type: "answer_result",
-          pin,
-          questionIndex,
-          correct,
-          delta,
-          total: nextScore,
-        }),
-      );
+      ws.send(JSON.stringify(answerResultMessage(pin, questionIndex, entry, nextScore, order)));
+      if (!graded.graded) {
+        sendToHost(pin, { type: "live_results", pin, questionIndex, results: questionResults(game, questionIndex) });
+      }
+      updateAnswerCount(pin);
       return;
     }
 
-    ws.send(JSON.stringify({ type: "error", message: "Unknown message type" }));
+    sendError("UNKNOWN_MESSAGE_TYPE", `Unknown message type "${msg.type}"`);
   });
 
   ws.on("close", () => {
     const { id, pin } = state;
     if (!id || !pin) return;
 
-    sockets.delete(id);
-
-    const roomPlayers = rooms.get(pin);
-    if (roomPlayers) {
-      roomPlayers.delete(id);
-      if (roomPlayers.size === 0) rooms.delete(pin);
-      else broadcastRoom(pin);
+    const game = games.get(pin);
+    if (game?.pending.get(id)?.ws === ws) {
+      game.pending.delete(id);
+      sendPendingPlayers(pin);
+      return;
     }
 
-    const game = games.get(pin);
-    if (game) {
-      game.scores.delete(id);
-      const answered = game.answeredByQuestion.get(game.questionIndex);
-      if (answered) answered.delete(id);
-      if (game.hostId === id) {
-        game.hostId = undefined;
-        if (game.state === "running") {
+    // A `resume` may already have bound this id to a newer socket.
+    if (sockets.get(id) !== ws) return;
+
+    sockets.delete(id);
+
+    if (game && game.hostId === id) {
+      removePlayer(pin, id);
+      game.hostId = undefined;
+      if (game.state === "running") {
+        sendToRoom(pin, { type: "host_status", pin, connected: false });
+        game.hostGraceTimer = setTimeout(() => {
+          game.hostGraceTimer = undefined;
+          if (game.hostId || game.state !== "running") return;
+          clearPhaseTimer(game);
           game.state = "waiting";
           game.questionIndex = -1;
           game.questionStartedAt = undefined;
           game.questionEndsAt = undefined;
+          game.pausedRemainingMs = undefined;
+          game.phaseMessage = undefined;
           sendToRoom(pin, { type: "host_left", pin });
-        }
+        }, HOST_GRACE_MS);
       }
+      return;
     }
+
+    const player = rooms.get(pin)?.get(id);
+    if (!player) return;
+    player.connected = false;
+    broadcastRoom(pin);
+    graceTimers.set(
+      id,
+      setTimeout(() => expirePlayer(pin, id), PLAYER_GRACE_MS),
+    );
   });
 });
 
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { HOST_KEY_MISS, pinMissResponse } from "@/lib/pin-misses";
+import { findRoomByPin } from "@/lib/rooms-store";
+import { findSession } from "@/lib/results-store";
+import { sessionPlayerRows } from "@/lib/session-report";
+import { toCsv, toXlsx } from "@/lib/spreadsheet";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const pin = url.searchParams.get("pin")?.trim() ?? "";
+  const hostKey = url.searchParams.get("hostKey")?.trim() ?? "";
+  const sessionId = url.searchParams.get("session")?.trim() ?? "";
+  const format = url.searchParams.get("format")?.trim() || "csv";
+
+  if (!pin || !hostKey || !sessionId || (format !== "csv" && format !== "xlsx")) {
+    return NextResponse.json({ error: "INVALID_QUERY" }, { status: 400 });
+  }
+
+  // An unknown PIN gets the same answer as a wrong host key, so neither tells a PIN exists.
+  const room = await findRoomByPin(pin);
+  if (!room || !room.hostKey || room.hostKey !== hostKey) return pinMissResponse(request, HOST_KEY_MISS);
+
+  const session = await findSession(pin, sessionId);
+  if (!session) return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
+
+  const rows = sessionPlayerRows(session);
+  const filename = `results-${pin}-${session.startedAt.slice(0, 10)}.${format}`;
+  const headers = {
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Cache-Control": "no-store",
+  };
+
+  if (format === "xlsx") {
+    return new NextResponse(new Uint8Array(toXlsx(rows, session.title)), {
+      headers: {
+        ...headers,
+        "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      },
+    });
+  }
+  return new NextResponse(toCsv(rows), {
+    headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+  });
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { findQuiz, upsertQuiz } from "@/lib/rooms-store";
+import { normalizeQuizDraft, quizDraftErrors, type QuizDraft } from "@/lib/quiz";
+import type { RoomSettings } from "@/lib/room-settings";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const id = url.searchParams.get("id")?.trim() ?? "";
+  const hostKey = url.searchParams.get("hostKey")?.trim() ?? "";
+
+  if (!id || !hostKey) return NextResponse.json({ error: "INVALID_QUERY" }, { status: 400 });
+
+  const item = await findQuiz(id);
+  if (!item) return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
+  if (item.hostKey !== hostKey) return NextResponse.json({ error: "HOST_KEY_INVALID" }, { status: 403 });
+
+  return NextResponse.json({ quiz: item });
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as
+    | {
+        title?: string;
+        quiz?: unknown;
+        settings?: Partial<RoomSettings>;
+        id?: string;
+        hostKey?: string;
+      }
+    | null;
+
+  if (!body || typeof body.title !== "string" || !body.quiz) {
+    return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+  }
+
+  const fields = quizDraftErrors(body.quiz);
+  if (fields.length) return NextResponse.json({ ok: false, error: "INVALID_QUIZ", fields }, { status: 400 });
+
+  try {
+    const result = await upsertQuiz({
+      title: body.title,
+      quiz: normalizeQuizDraft(body.quiz as QuizDraft),
+      settings: body.settings,
+      id: body.id,
+      hostKey: body.hostKey,
+    });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "UNKNOWN";
+    const status = message === "HOST_KEY_INVALID" || message === "QUIZ_NOT_FOUND" ? 403 : 500;
+    return NextResponse.json({ ok: false, error: message }, { status });
+  }
+}
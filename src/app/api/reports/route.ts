@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { HOST_KEY_MISS, pinMissResponse } from "@/lib/pin-misses";
+import { findRoomByPin } from "@/lib/rooms-store";
+import { findSession, readSessions, summarizeSession } from "@/lib/results-store";
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const pin = url.searchParams.get("pin")?.trim() ?? "";
+  const hostKey = url.searchParams.get("hostKey")?.trim() ?? "";
+  const sessionId = url.searchParams.get("session")?.trim() ?? "";
+
+  if (!pin || !hostKey) return NextResponse.json({ error: "INVALID_QUERY" }, { status: 400 });
+
+  // An unknown PIN gets the same answer as a wrong host key, so neither tells a PIN exists.
+  const room = await findRoomByPin(pin);
+  if (!room || !room.hostKey || room.hostKey !== hostKey) return pinMissResponse(request, HOST_KEY_MISS);
+
+  if (sessionId) {
+    const session = await findSession(pin, sessionId);
+    if (!session) return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
+    return NextResponse.json({ session });
+  }
+
+  const sessions = await readSessions(pin);
+  return NextResponse.json({
+    room: { pin: room.pin, title: room.title },
+    // Newest first.
+    sessions: sessions.map(summarizeSession).reverse(),
+  });
+}
@@ -1,52 +1,123 @@
 import { NextResponse } from "next/server";
-import { findRoomByPin, readRoomsFile, upsertRoom } from "@/lib/rooms-store";
-import type { QuizDraft } from "@/lib/quiz";
+import {
+  createSession,
+  findRoomByPin,
+  isRoomExpired,
+  listRooms,
+  updateRoomQuiz,
+} from "@/lib/rooms-store";
+import { normalizeQuizDraft, quizDraftErrors, type QuizDraft } from "@/lib/quiz";
+import { normalizeRoomSettings, type RoomSettings } from "@/lib/room-settings";
+import { HOST_KEY_MISS, pinMissResponse } from "@/lib/pin-misses";
+import { gameJoinBlock, isGameRunning } from "@/lib/ws-status";
+import type { RoomRecord } from "@/lib/rooms-store";
+
+/** What anyone may see about a room: enough to find it and pick a team. */
+function publicRoom(room: RoomRecord) {
+  const settings = normalizeRoomSettings(room.settings);
+  return {
+    pin: room.pin,
+    title: room.title,
+    ...(settings.teamMode ? { teams: settings.teams } : {}),
+  };
+}
 
 export async function GET(request: Request) {
   const url = new URL(request.url);
   const pin = url.searchParams.get("pin")?.trim() ?? "";
   const hostKey = url.searchParams.get("hostKey")?.trim() ?? "";
 
+  // Without a PIN, only the rooms their hosts chose to list, such as demo rooms.
   if (!pin) {
-    const data = await readRoomsFile();
-    return NextResponse.json({ rooms: data.rooms.map(({ pin, title }) => ({ pin, title })) });
+    const rooms = await listRooms();
+    return NextResponse.json({
+      rooms: rooms.filter((r) => normalizeRoomSettings(r.settings).listed).map(publicRoom),
+    });
   }
 
   const room = await findRoomByPin(pin);
-  if (!room) return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
-
-  if (hostKey && room.hostKey === hostKey) {
+  if (room && hostKey && room.hostKey === hostKey) {
     return NextResponse.json({ room });
   }
 
-  return NextResponse.json({ room: { pin: room.pin, title: room.title } });
+  // Known PINs always answer, so guessing never locks players out of a real game.
+  if (!room || isRoomExpired(room)) return pinMissResponse(request, { error: "NOT_FOUND", status: 404 });
+
+  const joinBlock = await gameJoinBlock(room.pin);
+  return NextResponse.json({ room: { ...publicRoom(room), ...(joinBlock ? { joinBlock } : {}) } });
 }
 
+/** Hosts a library quiz: creates a new session with a fresh PIN. */
 export async function POST(request: Request) {
   const body = (await request.json().catch(() => null)) as
     | {
-        title?: string;
-        quiz?: QuizDraft;
+        quizId?: string;
+        hostKey?: string;
+      }
+    | null;
+
+  if (!body || typeof body.quizId !== "string" || typeof body.hostKey !== "string") {
+    return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
+  }
+
+  try {
+    const result = await createSession({ quizId: body.quizId, hostKey: body.hostKey });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "UNKNOWN";
+    const status = message === "HOST_KEY_INVALID" || message === "QUIZ_NOT_FOUND" ? 403 : 500;
+    return NextResponse.json({ ok: false, error: message }, { status });
+  }
+}
+
+/** Saves an edited quiz back to the same PIN; refused while a game is running on it. */
+export async function PUT(request: Request) {
+  const body = (await request.json().catch(() => null)) as
+    | {
         pin?: string;
         hostKey?: string;
+        title?: string;
+        quiz?: unknown;
+        settings?: Partial<RoomSettings>;
       }
     | null;
 
-  if (!body || typeof body.title !== "string") {
+  if (
+    !body ||
+    typeof body.pin !== "string" ||
+    typeof body.hostKey !== "string" ||
+    typeof body.title !== "string" ||
+    !body.quiz
+  ) {
     return NextResponse.json({ error: "INVALID_BODY" }, { status: 400 });
   }
 
+  const fields = quizDraftErrors(body.quiz);
+  if (fields.length) return NextResponse.json({ ok: false, error: "INVALID_QUIZ", fields }, { status: 400 });
+
+  // An unknown PIN gets the same answer as a wrong host key, so neither tells a PIN exists.
+  const room = await findRoomByPin(body.pin);
+  if (!room || !room.hostKey || room.hostKey !== body.hostKey) return pinMissResponse(request, HOST_KEY_MISS);
+  const running = await isGameRunning(body.pin);
+  if (running === null) {
+    return NextResponse.json({ ok: false, error: "GAME_STATUS_UNAVAILABLE" }, { status: 503 });
+  }
+  if (running) return NextResponse.json({ ok: false, error: "GAME_RUNNING" }, { status: 409 });
+
   try {
-    const result = await upsertRoom({
-      title: body.title,
-      quiz: body.quiz,
+    const result = await updateRoomQuiz({
       pin: body.pin,
       hostKey: body.hostKey,
+      title: body.title,
+      quiz: normalizeQuizDraft(body.quiz as QuizDraft),
+      settings: body.settings,
     });
     return NextResponse.json({ ok: true, ...result });
   } catch (err) {
     const message = err instanceof Error ? err.message : "UNKNOWN";
-    const status = message === "HOST_KEY_INVALID" || message === "PIN_NOT_FOUND" ? 403 : 500;
-    return NextResponse.json({ ok: false, error: message }, { status });
+    if (message === "HOST_KEY_INVALID" || message === "PIN_NOT_FOUND") {
+      return NextResponse.json({ ok: false, error: HOST_KEY_MISS.error }, { status: HOST_KEY_MISS.status });
+    }
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
   }
 }
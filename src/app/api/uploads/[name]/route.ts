@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { readUpload } from "@/lib/uploads-store";
+import { UPLOAD_CONTENT_TYPES, type UploadImageType } from "@/lib/uploads";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ name: string }> }) {
+  const { name } = await params;
+  const bytes = await readUpload(name);
+  if (!bytes) return NextResponse.json({ error: "NOT_FOUND" }, { status: 404 });
+
+  const type = name.split(".").pop() as UploadImageType;
+  return new NextResponse(new Uint8Array(bytes), {
+    headers: {
+      "Content-Type": UPLOAD_CONTENT_TYPES[type],
+      // Names are content hashes, so a name always means the same bytes.
+      "Cache-Control": "public, max-age=31536000, immutable",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { HOST_KEY_MISS, pinMissResponse } from "@/lib/pin-misses";
+import { clientAddress, createRateLimiter } from "@/lib/rate-limit/index.mjs";
+import { findQuiz, findRoomByPin } from "@/lib/rooms-store";
+import { saveUpload } from "@/lib/uploads-store";
+import { MAX_UPLOAD_BYTES } from "@/lib/uploads";
+
+// Images saved per address, so one key can't be used to fill the disk.
+const uploads = createRateLimiter({ limit: 60, windowMs: 10 * 60 * 1000 });
+
+/** Whether the form carries a quiz's key (`quizId`) or a room's host key (`pin`). */
+async function hasEditorKey(form: FormData) {
+  const field = (name: string) => {
+    const value = form.get(name);
+    return typeof value === "string" ? value.trim() : "";
+  };
+  const hostKey = field("hostKey");
+  if (!hostKey) return false;
+  if (field("quizId")) return (await findQuiz(field("quizId")))?.hostKey === hostKey;
+  if (field("pin")) return (await findRoomByPin(field("pin")))?.hostKey === hostKey;
+  return false;
+}
+
+/**
+ * Takes one image as multipart `file`; PNG, JPEG, GIF or WebP up to 2 MB. The form also needs
+ * `hostKey` with the `quizId` or `pin` it opens, like the routes that save quizzes.
+ */
+export async function POST(request: Request) {
+  const address = clientAddress({ forwardedFor: request.headers.get("x-forwarded-for") });
+  const retryAfter = uploads.retryAfter(address);
+  if (retryAfter) {
+    return NextResponse.json(
+      { ok: false, error: "RATE_LIMITED" },
+      { status: 429, headers: { "retry-after": String(retryAfter) } },
+    );
+  }
+
+  const declared = Number(request.headers.get("content-length") ?? "0");
+  // Multipart framing adds a little on top of the file itself.
+  if (declared > MAX_UPLOAD_BYTES + 64 * 1024) {
+    return NextResponse.json({ ok: false, error: "FILE_TOO_LARGE" }, { status: 413 });
+  }
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!form || !file || typeof file === "string") {
+    return NextResponse.json({ ok: false, error: "INVALID_BODY" }, { status: 400 });
+  }
+  if (!(await hasEditorKey(form))) return pinMissResponse(request, HOST_KEY_MISS);
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ ok: false, error: "FILE_TOO_LARGE" }, { status: 413 });
+  }
+
+  uploads.hit(address);
+  try {
+    const name = await saveUpload(new Uint8Array(await file.arrayBuffer()));
+    return NextResponse.json({ ok: true, name });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "UNKNOWN";
+    const status = message === "UNSUPPORTED_TYPE" ? 415 : 500;
+    return NextResponse.json({ ok: false, error: message }, { status });
+  }
+}
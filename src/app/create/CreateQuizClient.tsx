@@ -0,0 +1,1147 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  changeQuestionType,
+  clampMaxTypos,
+  clampTimerSeconds,
+  createQuestionSeed,
+  DEFAULT_SCORING,
+  DEFAULT_SHUFFLE,
+  hasEditableChoices,
+  isGradedQuestion,
+  MAX_ACCEPTED_ANSWERS,
+  MAX_TYPOS,
+  MAX_CHOICES,
+  MIN_CHOICES,
+  normalizeQuestion,
+  normalizeScoring,
+  normalizeShuffle,
+  POINTS_MULTIPLIER_LABELS,
+  pointsMultiplier,
+  type PointsMultiplier,
+  QUESTION_TYPE_LABELS,
+  questionChoices,
+  type QuestionType,
+  type QuizFieldError,
+  type QuizQuestion,
+  type ScoringSettings,
+  type ShuffleSettings,
+  validateQuizDraft,
+} from "@/lib/quiz";
+import { withBasePath } from "@/lib/public-base-path";
+import { startHostSession } from "@/lib/host-session";
+import {
+  exportQuiz,
+  importQuiz,
+  QUIZ_FORMAT_EXTENSIONS,
+  QUIZ_FORMAT_LABELS,
+  quizFormatFromFileName,
+  type QuizFormat,
+  type QuizImportError,
+  type QuizImportResult,
+} from "@/lib/quiz-formats";
+import {
+  clampMaxPlayers,
+  DEFAULT_ROOM_SETTINGS,
+  LATE_JOIN_LABELS,
+  MAX_TEAMS,
+  normalizeRoomSettings,
+  PLAYER_LIMIT,
+  TEAM_SCORING_LABELS,
+  validateRoomSettings,
+  type LateJoinPolicy,
+  type RoomSettings,
+  type TeamScoring,
+} from "@/lib/room-settings";
+import type { RoomRecord } from "@/lib/rooms-store";
+import { MAX_UPLOAD_BYTES, type UploadCredentials } from "@/lib/uploads";
+import UploadedImage from "@/components/UploadedImage";
+
+const EDIT_ERRORS: Record<string, string> = {
+  HOST_KEY_INVALID: "Wrong PIN or host key",
+  RATE_LIMITED: "Too many wrong PINs or host keys. Wait a few minutes, then try again.",
+  GAME_RUNNING: "A game is running on this PIN. Save again once it has ended.",
+  GAME_STATUS_UNAVAILABLE: "Couldn't check whether a game is running on this PIN. Try again.",
+};
+
+type SaveErrorBody = { error?: string; fields?: QuizFieldError[] };
+
+/** The first problem the server found in the quiz, or what its error code means. */
+function saveErrorMessage(json: SaveErrorBody | null): string | null {
+  const field = json?.fields?.[0];
+  if (field) {
+    const question = /^questions\[(\d+)\]/.exec(field.field);
+    return question ? `Question ${Number(question[1]) + 1}: ${field.message}` : field.message;
+  }
+  return (json?.error && EDIT_ERRORS[json.error]) || json?.error || null;
+}
+
+const UPLOAD_ERRORS: Record<string, string> = {
+  FILE_TOO_LARGE: `Images must be ${MAX_UPLOAD_BYTES / 1024 / 1024} MB or smaller`,
+  UNSUPPORTED_TYPE: "Use a PNG, JPEG, GIF or WebP image",
+  HOST_KEY_INVALID: "Wrong PIN or host key",
+  RATE_LIMITED: "Too many uploads. Wait a few minutes, then try again.",
+};
+
+/**
+ * Uploads a picture and reports its upload name, or shows it with a remove button. Uploads
+ * need the quiz's key, so a new quiz can take pictures once it has been saved.
+ */
+function ImagePicker({
+  name,
+  label,
+  credentials,
+  onChange,
+}: {
+  name?: string;
+  label: string;
+  credentials: UploadCredentials | null;
+  onChange: (name: string | undefined) => void;
+}) {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onFile(file: File) {
+    setError(null);
+    if (!credentials) return;
+    if (file.size > MAX_UPLOAD_BYTES) {
+      setError(UPLOAD_ERRORS.FILE_TOO_LARGE!);
+      return;
+    }
+    setUploading(true);
+    try {
+      const body = new FormData();
+      for (const [field, value] of Object.entries(credentials)) body.append(field, value);
+      body.append("file", file);
+      const res = await fetch(withBasePath("/api/uploads"), { method: "POST", body });
+      const json = (await res.json().catch(() => null)) as { name?: string; error?: string } | null;
+      if (!res.ok || !json?.name) {
+        setError((json?.error && UPLOAD_ERRORS[json.error]) || "Upload failed");
+        return;
+      }
+      onChange(json.name);
+    } catch {
+      setError("Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  if (name) {
+    return (
+      <div className="flex items-center gap-2">
+        <UploadedImage name={name} className="max-h-16" />
+        <button
+          type="button"
+          className="rounded-lg px-2 py-1 text-xs hover:bg-foreground/5"
+          onClick={() => onChange(undefined)}
+        >
+          Remove image
+        </button>
+      </div>
+    );
+  }
+
+  if (!credentials) {
+    return (
+      <span className="px-2 py-1 text-xs text-foreground/40" title="Save the quiz once to add images">
+        {label}
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <label className="cursor-pointer rounded-lg px-2 py-1 text-xs hover:bg-foreground/5">
+        {uploading ? "Uploading…" : label}
+        <input
+          type="file"
+          accept="image/png,image/jpeg,image/gif,image/webp"
+          className="hidden"
+          disabled={uploading}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) void onFile(file);
+          }}
+        />
+      </label>
+      {error ? <span className="text-xs text-foreground/70">{error}</span> : null}
+    </div>
+  );
+}
+
+function QuestionRow({
+  label,
+  selected,
+  onSelect,
+  onDelete,
+}: {
+  label: string;
+  selected: boolean;
+  onSelect: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div
+      className={`flex items-center justify-between gap-2 rounded-xl border px-3 py-2 text-sm ${
+        selected
+          ? "border-foreground/30 bg-foreground/5"
+          : "border-foreground/10"
+      }`}
+    >
+      <button type="button" className="flex-1 text-left" onClick={onSelect}>
+        {label}
+      </button>
+      <button
+        type="button"
+        className="rounded-lg px-2 py-1 text-xs hover:bg-foreground/5"
+        onClick={onDelete}
+      >
+        Delete
+      </button>
+    </div>
+  );
+}
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  step,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+}) {
+  return (
+    <label className="block">
+      <span className="text-sm text-foreground/70">{label}</span>
+      <input
+        type="number"
+        step={step ?? "any"}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+      />
+    </label>
+  );
+}
+
+export default function CreateQuizClient({
+  pinParam,
+  hostKeyParam,
+}: {
+  pinParam: string;
+  hostKeyParam: string;
+}) {
+  const router = useRouter();
+  // With a PIN and its host key the editor loads that room's quiz and saves back to it.
+  const editPin = pinParam.trim();
+  const editHostKey = hostKeyParam.trim();
+  const editing = Boolean(editPin && editHostKey);
+  const [topic, setTopic] = useState("");
+  const [questions, setQuestions] = useState<QuizQuestion[]>([createQuestionSeed()]);
+  const [selectedId, setSelectedId] = useState<string>(questions[0]!.id);
+  const [settings, setSettings] = useState<RoomSettings>(DEFAULT_ROOM_SETTINGS);
+  const [scoring, setScoring] = useState<ScoringSettings>(DEFAULT_SCORING);
+  const [shuffle, setShuffle] = useState<ShuffleSettings>(DEFAULT_SHUFFLE);
+
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [savedQuizId, setSavedQuizId] = useState<string | null>(null);
+  const [savedHostKey, setSavedHostKey] = useState<string | null>(null);
+  const [hosting, setHosting] = useState(false);
+  const uploadCredentials: UploadCredentials | null = editing
+    ? { pin: editPin, hostKey: editHostKey }
+    : savedQuizId && savedHostKey
+      ? { quizId: savedQuizId, hostKey: savedHostKey }
+      : null;
+  const [loadStatus, setLoadStatus] = useState<"loading" | "ready" | "error">(
+    editing ? "loading" : "ready",
+  );
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [importNote, setImportNote] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<QuizImportError[]>([]);
+
+  useEffect(() => {
+    if (!editing) return;
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const res = await fetch(
+          withBasePath(
+            `/api/rooms?pin=${encodeURIComponent(editPin)}&hostKey=${encodeURIComponent(editHostKey)}`,
+          ),
+          { cache: "no-store" },
+        );
+        const json = (await res.json().catch(() => null)) as { room?: RoomRecord } | null;
+        if (cancelled) return;
+        const room = json?.room;
+        if (!res.ok || !room) {
+          setLoadStatus("error");
+          setLoadError(res.status === 404 ? "Room not found" : "Failed to load quiz");
+          return;
+        }
+        // The public view of a room has no host key; getting it back means the key was wrong.
+        if (room.hostKey !== editHostKey) {
+          setLoadStatus("error");
+          setLoadError("Invalid host key");
+          return;
+        }
+
+        const loaded = (room.quiz?.questions ?? []).map((q) => normalizeQuestion(q));
+        const initial = loaded.length > 0 ? loaded : [createQuestionSeed()];
+        setTopic(room.quiz?.topic || room.title);
+        setQuestions(initial);
+        setSelectedId(initial[0]!.id);
+        setSettings(normalizeRoomSettings(room.settings));
+        setScoring(normalizeScoring(room.quiz?.scoring));
+        setShuffle(normalizeShuffle(room.quiz?.shuffle));
+        setLoadStatus("ready");
+      } catch {
+        if (!cancelled) {
+          setLoadStatus("error");
+          setLoadError("Failed to load quiz");
+        }
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [editing, editPin, editHostKey]);
+
+  const selected = useMemo(
+    () => questions.find((q) => q.id === selectedId) ?? null,
+    [questions, selectedId],
+  );
+
+  const selectedIndex = useMemo(
+    () => questions.findIndex((q) => q.id === selectedId),
+    [questions, selectedId],
+  );
+
+  const validationError = useMemo(() => {
+    return validateQuizDraft({ topic, questions });
+  }, [topic, questions]);
+
+  function updateSelected(patch: Partial<QuizQuestion>) {
+    if (!selected) return;
+    setQuestions((prev) =>
+      prev.map((q) => (q.id === selected.id ? ({ ...q, ...patch } as QuizQuestion) : q)),
+    );
+  }
+
+  function onChangeType(type: QuestionType) {
+    if (!selected) return;
+    const next = changeQuestionType(selected, type);
+    setQuestions((prev) => prev.map((q) => (q.id === selected.id ? next : q)));
+  }
+
+  function onChangeChoice(idx: number, value: string) {
+    if (!selected || !hasEditableChoices(selected)) return;
+    const next = [...selected.choices];
+    next[idx] = value;
+    updateSelected({ choices: next });
+  }
+
+  function onAddChoice() {
+    if (!selected || !hasEditableChoices(selected)) return;
+    if (selected.choices.length >= MAX_CHOICES) return;
+    updateSelected({ choices: [...selected.choices, ""] });
+  }
+
+  function onRemoveChoice(idx: number) {
+    if (!selected || !hasEditableChoices(selected)) return;
+    if (selected.choices.length <= MIN_CHOICES) return;
+    const choices = selected.choices.filter((_, i) => i !== idx);
+    const choiceImages = selected.choiceImages?.filter((_, i) => i !== idx);
+    // Keep the correct answer(s) pointing at the same choices after the shift.
+    const shift = (i: number) => (i > idx ? i - 1 : i);
+    if (selected.type === "poll") {
+      updateSelected({ choices, choiceImages });
+    } else if (selected.type === "multi") {
+      updateSelected({
+        choices,
+        choiceImages,
+        correctIndices: selected.correctIndices.filter((i) => i !== idx).map(shift),
+      });
+    } else {
+      updateSelected({
+        choices,
+        choiceImages,
+        correctIndex: selected.correctIndex === idx ? 0 : shift(selected.correctIndex),
+      });
+    }
+  }
+
+  function onChangeChoiceImage(idx: number, name: string | undefined) {
+    if (!selected || !hasEditableChoices(selected)) return;
+    const next = selected.choices.map((_, i) => selected.choiceImages?.[i] ?? "");
+    next[idx] = name ?? "";
+    updateSelected({ choiceImages: next });
+  }
+
+  function onChangeAcceptedAnswer(idx: number, value: string) {
+    if (!selected || selected.type !== "type_answer") return;
+    const next = [...selected.acceptedAnswers];
+    next[idx] = value;
+    updateSelected({ acceptedAnswers: next });
+  }
+
+  function onAddAcceptedAnswer() {
+    if (!selected || selected.type !== "type_answer") return;
+    if (selected.acceptedAnswers.length >= MAX_ACCEPTED_ANSWERS) return;
+    updateSelected({ acceptedAnswers: [...selected.acceptedAnswers, ""] });
+  }
+
+  function onRemoveAcceptedAnswer(idx: number) {
+    if (!selected || selected.type !== "type_answer") return;
+    if (selected.acceptedAnswers.length <= 1) return;
+    updateSelected({ acceptedAnswers: selected.acceptedAnswers.filter((_, i) => i !== idx) });
+  }
+
+  function onToggleCorrect(idx: number) {
+    if (!selected || selected.type === "poll") return;
+    if (selected.type === "multi") {
+      const has = selected.correctIndices.includes(idx);
+      updateSelected({
+        correctIndices: has
+          ? selected.correctIndices.filter((i) => i !== idx)
+          : [...selected.correctIndices, idx].sort((a, b) => a - b),
+      });
+      return;
+    }
+    updateSelected({ correctIndex: idx } as Partial<QuizQuestion>);
+  }
+
+  function onAddQuestion() {
+    const next = createQuestionSeed();
+    setQuestions((prev) => [...prev, next]);
+    setSelectedId(next.id);
+  }
+
+  function onDeleteQuestion(id: string) {
+    setQuestions((prev) => {
+      const next = prev.filter((q) => q.id !== id);
+      const fallback = next[0]?.id;
+      setSelectedId((current) => {
+        if (current !== id) return current;
+        return fallback ?? "";
+      });
+      return next.length > 0 ? next : [createQuestionSeed()];
+    });
+  }
+
+  function onNormalizeSelected() {
+    if (!selected) return;
+    const normalized = normalizeQuestion(selected);
+    setQuestions((prev) => prev.map((q) => (q.id === selected.id ? normalized : q)));
+  }
+
+  async function onSave() {
+    setSaveError(null);
+
+    const draft = { topic, questions: questions.map((q) => normalizeQuestion(q)), scoring, shuffle };
+    const err = validateQuizDraft(draft) ?? validateRoomSettings(settings);
+    if (err) {
+      setSaveError(err);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editing) {
+        const res = await fetch(withBasePath("/api/rooms"), {
+          method: "PUT",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({
+            pin: editPin,
+            hostKey: editHostKey,
+            title: draft.topic,
+            quiz: draft,
+            settings,
+          }),
+        });
+        const json = (await res.json().catch(() => null)) as (SaveErrorBody & { ok?: boolean }) | null;
+        if (!res.ok || !json?.ok) {
+          setSaveError(saveErrorMessage(json) ?? "Save failed");
+          return;
+        }
+        setSavedAt(new Date().toLocaleTimeString());
+        return;
+      }
+
+      const res = await fetch(withBasePath("/api/quizzes"), {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          title: draft.topic,
+          quiz: draft,
+          settings,
+          // Later saves update the same library item instead of adding a copy.
+          ...(savedQuizId && savedHostKey ? { id: savedQuizId, hostKey: savedHostKey } : {}),
+        }),
+      });
+      const json = (await res.json().catch(() => null)) as
+        | { ok: true; id: string; hostKey: string; title: string }
+        | ({ ok?: false } & SaveErrorBody)
+        | null;
+
+      if (!res.ok || !json || ("ok" in json && json.ok === false)) {
+        setSaveError((json && !("id" in json) && saveErrorMessage(json)) || "Save failed");
+        return;
+      }
+
+      if ("id" in json && "hostKey" in json) {
+        setSavedQuizId(json.id);
+        setSavedHostKey(json.hostKey);
+      }
+    } catch {
+      setSaveError("Save failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function onImportFile(file: File) {
+    setImportErrors([]);
+    const format = quizFormatFromFileName(file.name);
+    if (!format) {
+      setImportNote("Unknown file type. Use .json, .csv, .txt (GIFT) or .xml (Moodle XML).");
+      return;
+    }
+
+    let result: QuizImportResult;
+    try {
+      result = importQuiz(await file.text(), format);
+    } catch {
+      setImportNote(`Could not read this ${QUIZ_FORMAT_LABELS[format]} file; nothing was imported.`);
+      return;
+    }
+    setImportErrors(result.errors);
+    setImportNote(
+      `Imported ${result.questions.length} question${result.questions.length === 1 ? "" : "s"} from ${QUIZ_FORMAT_LABELS[format]}` +
+        (result.errors.length ? `; ${result.errors.length} skipped` : ""),
+    );
+    if (result.questions.length === 0) return;
+
+    // A fresh editor only holds one blank question; replace it rather than keep it.
+    const isBlank = questions.length === 1 && !questions[0]!.text.trim();
+    setQuestions((prev) => (isBlank ? result.questions : [...prev, ...result.questions]));
+    setSelectedId(result.questions[0]!.id);
+    if (!topic.trim() && result.topic) setTopic(result.topic);
+    if (result.scoring) setScoring(result.scoring);
+    if (result.shuffle) setShuffle(result.shuffle);
+  }
+
+  function onExport(format: QuizFormat) {
+    const { content, skipped } = exportQuiz({ topic, questions, scoring, shuffle }, format);
+    setImportErrors(skipped);
+    setImportNote(
+      skipped.length
+        ? `Exported ${QUIZ_FORMAT_LABELS[format]}; ${skipped.length} question${skipped.length === 1 ? "" : "s"} left out`
+        : null,
+    );
+    const types: Record<QuizFormat, string> = {
+      json: "application/json",
+      csv: "text/csv",
+      gift: "text/plain",
+      moodle_xml: "application/xml",
+    };
+    const blob = new Blob([content], { type: `${types[format]};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    const name = topic.trim().replace(/[\\/:*?"<>|]+/g, "_") || "quiz";
+    link.download = `${name}.${QUIZ_FORMAT_EXTENSIONS[format]}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function onHost() {
+    if (!savedQuizId || !savedHostKey) return;
+    setSaveError(null);
+    setHosting(true);
+    const result = await startHostSession(savedQuizId, savedHostKey);
+    setHosting(false);
+    if (!result.ok) {
+      setSaveError(result.error);
+      return;
+    }
+    router.push(result.href);
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-3.5rem)] bg-background text-foreground">
+      <div className="mx-auto grid w-full max-w-6xl grid-cols-1 gap-6 px-6 py-6 md:grid-cols-[280px_1fr]">
+        <aside className="rounded-2xl border border-foreground/10 bg-background p-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-semibold">Questions</div>
+            <button
+              type="button"
+              className="rounded-lg bg-foreground px-3 py-2 text-xs text-background"
+              onClick={onAddQuestion}
+            >
+              Add
+            </button>
+          </div>
+
+          <div className="mt-3 space-y-2">
+            {questions.map((q, idx) => (
+              <QuestionRow
+                key={q.id}
+                label={q.text ? `${idx + 1}. ${q.text}` : `${idx + 1}. (untitled)`}
+                selected={q.id === selectedId}
+                onSelect={() => setSelectedId(q.id)}
+                onDelete={() => onDeleteQuestion(q.id)}
+              />
+            ))}
+          </div>
+        </aside>
+
+        <section className="rounded-2xl border border-foreground/10 bg-background p-5">
+          <div className="flex flex-col gap-4">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+              <label className="block w-full">
+                <span className="text-sm text-foreground/70">Topic</span>
+                <input
+                  value={topic}
+                  onChange={(e) => setTopic(e.target.value)}
+                  className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+                />
+              </label>
+              <button
+                type="button"
+                className="h-11 shrink-0 rounded-xl bg-foreground px-4 text-sm text-background disabled:opacity-50"
+                onClick={onSave}
+                disabled={saving || loadStatus !== "ready"}
+              >
+                {saving ? "Saving…" : "Save"}
+              </button>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.autoAdvance}
+                onChange={(e) => setSettings((prev) => ({ ...prev, autoAdvance: e.target.checked }))}
+              />
+              End each question early once every player has answered
+            </label>
+
+            <div className="flex flex-col gap-2 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.filterNicknames}
+                  onChange={(e) => setSettings((prev) => ({ ...prev, filterNicknames: e.target.checked }))}
+                />
+                Refuse nicknames with offensive words (Thai and English)
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.approvePlayers}
+                  onChange={(e) => setSettings((prev) => ({ ...prev, approvePlayers: e.target.checked }))}
+                />
+                Players wait until I admit them
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.listed}
+                  onChange={(e) => setSettings((prev) => ({ ...prev, listed: e.target.checked }))}
+                />
+                List this game&apos;s PIN on the home page (for demo games)
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <label className="block">
+                <span className="text-sm text-foreground/70">Player limit (0 for no limit)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={PLAYER_LIMIT}
+                  value={settings.maxPlayers}
+                  onChange={(e) =>
+                    setSettings((prev) => ({ ...prev, maxPlayers: clampMaxPlayers(Number(e.target.value)) }))
+                  }
+                  className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+                />
+              </label>
+              <label className="block">
+                <span className="text-sm text-foreground/70">Players who join after the start</span>
+                <select
+                  value={settings.lateJoin}
+                  onChange={(e) =>
+                    setSettings((prev) => ({ ...prev, lateJoin: e.target.value as LateJoinPolicy }))
+                  }
+                  className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+                >
+                  {(Object.keys(LATE_JOIN_LABELS) as LateJoinPolicy[]).map((policy) => (
+                    <option key={policy} value={policy}>
+                      {LATE_JOIN_LABELS[policy]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="rounded-2xl border border-foreground/10 p-4">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={settings.teamMode}
+                  onChange={(e) => setSettings((prev) => ({ ...prev, teamMode: e.target.checked }))}
+                />
+                Team mode
+              </label>
+              {settings.teamMode ? (
+                <div className="mt-3 grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <label className="block">
+                    <span className="text-sm text-foreground/70">
+                      Teams (one per line, up to {MAX_TEAMS})
+                    </span>
+                    <textarea
+                      value={settings.teams.join("\n")}
+                      onChange={(e) =>
+                        setSettings((prev) => ({ ...prev, teams: e.target.value.split("\n") }))
+                      }
+                      rows={4}
+                      className="mt-2 w-full resize-none rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-sm text-foreground/70">Team score</span>
+                    <select
+                      value={settings.teamScoring}
+                      onChange={(e) =>
+                        setSettings((prev) => ({ ...prev, teamScoring: e.target.value as TeamScoring }))
+                      }
+                      className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+                    >
+                      {(Object.keys(TEAM_SCORING_LABELS) as TeamScoring[]).map((scoring) => (
+                        <option key={scoring} value={scoring}>
+                          {TEAM_SCORING_LABELS[scoring]}
+                        </option>
+                      ))}
+                    </select>
+                    <span className="mt-2 block text-xs text-foreground/60">
+                      Players pick a team when they join, or are put on the smallest one.
+                    </span>
+                  </label>
+                </div>
+              ) : null}
+            </div>
+
+            <div className="flex flex-col gap-2 text-sm sm:flex-row sm:flex-wrap sm:gap-x-6">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={scoring.speedBonus}
+                  onChange={(e) => setScoring((prev) => ({ ...prev, speedBonus: e.target.checked }))}
+                />
+                Speed bonus (off: accuracy only)
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={scoring.streakBonus}
+                  onChange={(e) => setScoring((prev) => ({ ...prev, streakBonus: e.target.checked }))}
+                />
+                Answer streak bonus
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={scoring.negativeMarking}
+                  onChange={(e) =>
+                    setScoring((prev) => ({ ...prev, negativeMarking: e.target.checked }))
+                  }
+                />
+                Negative marks for wrong answers
+              </label>
+            </div>
+
+            <div className="flex flex-col gap-2 text-sm sm:flex-row sm:flex-wrap sm:gap-x-6">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={shuffle.questions}
+                  onChange={(e) => setShuffle((prev) => ({ ...prev, questions: e.target.checked }))}
+                />
+                Shuffle question order each game
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={shuffle.choices}
+                  onChange={(e) => setShuffle((prev) => ({ ...prev, choices: e.target.checked }))}
+                />
+                Shuffle choice order for each player
+              </label>
+            </div>
+
+            <div className="rounded-2xl border border-foreground/10 p-4 text-sm">
+              <div className="font-semibold">Import / export</div>
+              <div className="mt-1 text-xs text-foreground/60">
+                JSON, CSV (columns: type, question, choice_1…choice_6, correct, time_limit, points), Moodle
+                GIFT (.txt) or Moodle XML.
+              </div>
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <label className="cursor-pointer rounded-lg border border-foreground/10 px-3 py-2 text-xs hover:bg-foreground/5">
+                  Import file…
+                  <input
+                    type="file"
+                    accept=".json,.csv,.txt,.gift,.xml"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) void onImportFile(file);
+                    }}
+                  />
+                </label>
+                {(Object.keys(QUIZ_FORMAT_LABELS) as QuizFormat[]).map((format) => (
+                  <button
+                    key={format}
+                    type="button"
+                    className="rounded-lg border border-foreground/10 px-3 py-2 text-xs hover:bg-foreground/5"
+                    onClick={() => onExport(format)}
+                  >
+                    Export {QUIZ_FORMAT_LABELS[format]}
+                  </button>
+                ))}
+              </div>
+              {importNote ? <div className="mt-3 text-xs">{importNote}</div> : null}
+              {importErrors.length ? (
+                <ul className="mt-2 space-y-1 text-xs text-foreground/70">
+                  {importErrors.map((err, idx) => (
+                    <li key={idx}>
+                      {err.row}: {err.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+
+            {editing ? (
+              <div className="rounded-2xl border border-foreground/10 bg-background p-4 text-sm">
+                <div className="font-semibold">Editing PIN {editPin}</div>
+                <div className="mt-1 text-xs text-foreground/60">
+                  {loadStatus === "loading"
+                    ? "Loading quiz…"
+                    : loadError ?? (savedAt ? `Saved at ${savedAt}` : "Changes apply from the next game on this PIN.")}
+                </div>
+              </div>
+            ) : null}
+
+            {savedQuizId && savedHostKey ? (
+              <div className="rounded-2xl border border-foreground/10 bg-background p-4 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="font-semibold">Saved to library</div>
+                  <button
+                    type="button"
+                    className="rounded-lg bg-foreground px-3 py-2 text-xs text-background disabled:opacity-50"
+                    onClick={onHost}
+                    disabled={hosting}
+                  >
+                    {hosting ? "Starting…" : "Host this quiz"}
+                  </button>
+                </div>
+                <div className="mt-2 grid grid-cols-1 gap-2 md:grid-cols-2">
+                  <div>
+                    <div className="text-xs text-foreground/70">Quiz ID</div>
+                    <div className="mt-1 font-mono text-base">{savedQuizId}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-foreground/70">Quiz key</div>
+                    <div className="mt-1 font-mono text-base">{savedHostKey}</div>
+                  </div>
+                </div>
+                <div className="mt-2 text-xs text-foreground/60">
+                  Keep these to edit or host the quiz again. Each session gets its own PIN.
+                </div>
+              </div>
+            ) : null}
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <label className="block">
+                <span className="text-sm text-foreground/70">Question type</span>
+                <select
+                  value={selected?.type ?? "single"}
+                  onChange={(e) => onChangeType(e.target.value as QuestionType)}
+                  className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+                >
+                  {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {QUESTION_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-sm text-foreground/70">Timer (seconds)</span>
+                <input
+                  type="number"
+                  min={5}
+                  max={300}
+                  value={selected?.timerSeconds ?? 10}
+                  onChange={(e) =>
+                    updateSelected({
+                      timerSeconds: clampTimerSeconds(Number(e.target.value)),
+                    })
+                  }
+                  className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+                />
+              </label>
+              {selected && isGradedQuestion(selected) ? (
+                <label className="block">
+                  <span className="text-sm text-foreground/70">Points</span>
+                  <select
+                    value={pointsMultiplier(selected)}
+                    onChange={(e) =>
+                      updateSelected({ pointsMultiplier: Number(e.target.value) as PointsMultiplier })
+                    }
+                    className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+                  >
+                    {([1, 2, 0] as PointsMultiplier[]).map((multiplier) => (
+                      <option key={multiplier} value={multiplier}>
+                        {POINTS_MULTIPLIER_LABELS[multiplier]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+            </div>
+
+            <label className="block">
+              <span className="text-sm text-foreground/70">Question</span>
+              <textarea
+                value={selected?.text ?? ""}
+                onChange={(e) => updateSelected({ text: e.target.value })}
+                rows={3}
+                className="mt-2 w-full resize-none rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+              />
+            </label>
+
+            {selected ? (
+              <ImagePicker
+                key={selected.id}
+                name={selected.image}
+                label="Add question image"
+                credentials={uploadCredentials}
+                onChange={(image) => updateSelected({ image })}
+              />
+            ) : null}
+
+            {selected?.type === "type_answer" ? (
+              <div>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm text-foreground/70">Accepted answers</div>
+                  <button
+                    type="button"
+                    className="rounded-lg px-2 py-1 text-xs hover:bg-foreground/5 disabled:opacity-50"
+                    onClick={onAddAcceptedAnswer}
+                    disabled={selected.acceptedAnswers.length >= MAX_ACCEPTED_ANSWERS}
+                  >
+                    Add answer
+                  </button>
+                </div>
+                <div className="mt-2 grid grid-cols-1 gap-3 md:grid-cols-2">
+                  {selected.acceptedAnswers.map((answer, idx) => (
+                    <div
+                      key={idx}
+                      className="flex items-center gap-3 rounded-xl border border-foreground/10 px-3 py-2"
+                    >
+                      <input
+                        value={answer}
+                        onChange={(e) => onChangeAcceptedAnswer(idx, e.target.value)}
+                        placeholder={`Answer ${idx + 1}`}
+                        className="w-full bg-transparent py-2 text-sm outline-none"
+                      />
+                      {selected.acceptedAnswers.length > 1 ? (
+                        <button
+                          type="button"
+                          className="rounded-lg px-2 py-1 text-xs hover:bg-foreground/5"
+                          onClick={() => onRemoveAcceptedAnswer(idx)}
+                        >
+                          Remove
+                        </button>
+                      ) : null}
+                    </div>
+                  ))}
+                </div>
+                <label className="mt-3 block md:w-1/2">
+                  <span className="text-sm text-foreground/70">Allowed typos</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_TYPOS}
+                    value={selected.maxTypos}
+                    onChange={(e) =>
+                      updateSelected({ maxTypos: clampMaxTypos(Number(e.target.value)) })
+                    }
+                    className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+                  />
+                </label>
+                <div className="mt-2 text-xs text-foreground/60">
+                  Case, spacing, Thai tone marks and zero-width characters are ignored when checking.
+                </div>
+              </div>
+            ) : selected?.type === "slider" ? (
+              <div>
+                <div className="text-sm text-foreground/70">Slider</div>
+                <div className="mt-2 grid grid-cols-2 gap-3 md:grid-cols-3">
+                  <NumberField label="Min" value={selected.min} onChange={(min) => updateSelected({ min })} />
+                  <NumberField label="Max" value={selected.max} onChange={(max) => updateSelected({ max })} />
+                  <NumberField label="Step" value={selected.step} onChange={(step) => updateSelected({ step })} />
+                  <NumberField
+                    label="Correct value"
+                    value={selected.correctValue}
+                    step={selected.step}
+                    onChange={(correctValue) => updateSelected({ correctValue })}
+                  />
+                  <NumberField
+                    label="Tolerance (±)"
+                    value={selected.tolerance}
+                    onChange={(tolerance) => updateSelected({ tolerance })}
+                  />
+                  <label className="block">
+                    <span className="text-sm text-foreground/70">Unit</span>
+                    <input
+                      value={selected.unit}
+                      onChange={(e) => updateSelected({ unit: e.target.value })}
+                      placeholder="%"
+                      className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+                    />
+                  </label>
+                </div>
+                <div className="mt-2 text-xs text-foreground/60">
+                  Exact answers get full points; answers within the tolerance get less the further off they are.
+                </div>
+              </div>
+            ) : selected?.type === "word_cloud" ? (
+              <div className="rounded-xl border border-foreground/10 px-4 py-3 text-sm text-foreground/70">
+                Players type a short answer. The host sees matching answers grouped and counted; no
+                points are given.
+              </div>
+            ) : selected ? (
+              <div>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm text-foreground/70">
+                    {selected.type === "multi"
+                      ? "Choices (tick every correct one)"
+                      : selected.type === "poll"
+                        ? "Choices (no correct answer)"
+                        : "Choices"}
+                  </div>
+                  {hasEditableChoices(selected) ? (
+                    <button
+                      type="button"
+                      className="rounded-lg px-2 py-1 text-xs hover:bg-foreground/5 disabled:opacity-50"
+                      onClick={onAddChoice}
+                      disabled={selected.choices.length >= MAX_CHOICES}
+                    >
+                      Add choice
+                    </button>
+                  ) : null}
+                </div>
+                <div className="mt-2 grid grid-cols-1 gap-3 md:grid-cols-2">
+                  {questionChoices(selected).map((choice, idx) => (
+                    <div key={idx} className="rounded-xl border border-foreground/10 px-3 py-2">
+                      <label className="flex items-center gap-3">
+                        {selected.type !== "poll" ? (
+                          <input
+                            type={selected.type === "multi" ? "checkbox" : "radio"}
+                            name="correct"
+                            checked={
+                              selected.type === "multi"
+                                ? selected.correctIndices.includes(idx)
+                                : selected.correctIndex === idx
+                            }
+                            onChange={() => onToggleCorrect(idx)}
+                          />
+                        ) : null}
+                        {!hasEditableChoices(selected) ? (
+                          <span className="w-full py-2 text-sm">{choice}</span>
+                        ) : (
+                          <>
+                            <input
+                              value={choice}
+                              onChange={(e) => onChangeChoice(idx, e.target.value)}
+                              placeholder={`Choice ${idx + 1}`}
+                              className="w-full bg-transparent py-2 text-sm outline-none"
+                            />
+                            {selected.choices.length > MIN_CHOICES ? (
+                              <button
+                                type="button"
+                                className="rounded-lg px-2 py-1 text-xs hover:bg-foreground/5"
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  onRemoveChoice(idx);
+                                }}
+                              >
+                                Remove
+                              </button>
+                            ) : null}
+                          </>
+                        )}
+                      </label>
+                      {hasEditableChoices(selected) ? (
+                        <ImagePicker
+                          key={`${selected.id}-${idx}`}
+                          name={selected.choiceImages?.[idx] || undefined}
+                          label="Add image"
+                          credentials={uploadCredentials}
+                          onChange={(image) => onChangeChoiceImage(idx, image)}
+                        />
+                      ) : null}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : null}
+
+            {saveError || validationError ? (
+              <div className="rounded-xl border border-foreground/10 px-4 py-3 text-sm">
+                {saveError ?? validationError}
+              </div>
+            ) : null}
+
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div className="text-xs text-foreground/60">
+                Selected: {selectedIndex >= 0 ? selectedIndex + 1 : "-"} / {questions.length}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  className="h-11 rounded-xl border border-foreground/10 px-4 text-sm hover:bg-foreground/5"
+                  onClick={onNormalizeSelected}
+                >
+                  Normalize
+                </button>
+                <button
+                  type="button"
+                  className="h-11 rounded-xl bg-foreground px-4 text-sm text-background disabled:opacity-50"
+                  onClick={onAddQuestion}
+                >
+                  Add question
+                </button>
+              </div>
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,19 @@ import type { QuizDraft } from "@/lib/quiz";
 import { useFlipList } from "@/lib/useFlipList";
 import { withBasePath } from "@/lib/public-base-path";
 import AnimatedNumber from "@/components/AnimatedNumber";
+import UploadedImage from "@/components/UploadedImage";
+import {
+  PROTOCOL_VERSION,
+  readServerMessage,
+  type ClientMessage,
+  type LeaderboardEntry,
+  type Player,
+  type QuestionResults,
+  type QuestionType,
+  type Reveal,
+  type SliderSpread,
+  type TeamStanding,
+} from "@/lib/protocol/index.mjs";
 
 type Room = {
   pin: string;
@@ -13,49 +26,138 @@ type Room = {
   quiz?: QuizDraft;
 };
 
-type Player = { id: string; nickname: string };
-
-type HostMessage =
-  | ({
-      serverNow?: number;
-    } &
-      (
-        | {
-            type: "host_welcome";
-            id: string;
-            pin: string;
-            players: Player[];
-            state: "waiting" | "running" | "ended";
-            questionIndex: number;
-          }
-        | { type: "room_update"; pin: string; players: Player[] }
-        | { type: "starting"; pin: string; startsAt: number }
-        | { type: "game_started"; pin: string }
-        | {
-            type: "question";
-            pin: string;
-            questionIndex: number;
-            totalQuestions: number;
-            text: string;
-            choices: [string, string, string, string];
-            endsAt: number;
-          }
-        | {
-            type: "question_over";
-            pin: string;
-            questionIndex: number;
-            nextQuestionAt: number;
-            leaderboard: Array<{ id: string; nickname: string; score: number }>;
-            top3: Array<{ id: string; nickname: string; score: number }>;
-          }
-        | {
-            type: "game_over";
-            pin: string;
-            leaderboard: Array<{ id: string; nickname: string; score: number }>;
-            top3: Array<{ id: string; nickname: string; score: number }>;
-          }
-        | { type: "error"; code?: string; message: string }
-      ));
+type QuestionOverview = {
+  questionIndex: number;
+  text: string;
+  questionType: QuestionType;
+  choices: string[];
+  image?: string;
+  choiceImages?: string[];
+  reveal: Reveal;
+  results: QuestionResults;
+  spread?: SliderSpread;
+};
+
+function SliderSpreadView({ spread }: { spread: SliderSpread }) {
+  const range = Math.max(spread.max - spread.min, Number.EPSILON);
+  const position = (value: number) => `${((value - spread.min) / range) * 100}%`;
+  const median = spread.values.length
+    ? spread.values[Math.floor((spread.values.length - 1) / 2)]
+    : null;
+
+  return (
+    <div className="mt-6 rounded-2xl border border-foreground/10 bg-background p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-sm font-semibold">Answers</div>
+        <div className="text-xs text-foreground/60">
+          {spread.values.length} answered
+          {median !== null ? ` · median ${median}${spread.unit}` : ""}
+        </div>
+      </div>
+      <div className="relative mt-6 h-8">
+        <div className="absolute inset-x-0 top-1/2 h-1 -translate-y-1/2 rounded-full bg-foreground/10" />
+        {spread.values.map((value, idx) => (
+          <div
+            key={idx}
+            className="absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-foreground/40"
+            style={{ left: position(value) }}
+          />
+        ))}
+        {spread.correctValue !== undefined ? (
+          <div
+            className="absolute top-0 h-8 w-0.5 -translate-x-1/2 bg-foreground"
+            style={{ left: position(spread.correctValue) }}
+          />
+        ) : null}
+      </div>
+      <div className="mt-2 flex justify-between text-xs text-foreground/60">
+        <span>
+          {spread.min}
+          {spread.unit}
+        </span>
+        {spread.correctValue !== undefined ? (
+          <span className="font-semibold text-foreground">
+            Correct: {spread.correctValue}
+            {spread.unit}
+          </span>
+        ) : null}
+        <span>
+          {spread.max}
+          {spread.unit}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function ResultsChart({
+  results,
+  choices,
+  choiceImages,
+  correctIndices,
+}: {
+  results: QuestionResults;
+  choices: string[];
+  choiceImages?: string[];
+  correctIndices?: number[];
+}) {
+  if (results.words) {
+    const top = results.words[0]?.count ?? 1;
+    return (
+      <div className="mt-4 flex flex-wrap items-center justify-center gap-x-4 gap-y-2">
+        {results.words.length === 0 ? (
+          <div className="text-sm text-foreground/60">No answers yet</div>
+        ) : null}
+        {results.words.map((w) => (
+          <span
+            key={w.text}
+            className="font-semibold"
+            style={{ fontSize: `${0.875 + (w.count / top) * 1.625}rem`, opacity: 0.5 + (w.count / top) * 0.5 }}
+            title={`${w.count}`}
+          >
+            {w.text}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  const counts = results.counts ?? [];
+  const top = Math.max(1, ...counts);
+  return (
+    <div className="mt-4 grid grid-cols-1 gap-2">
+      {choices.map((choice, idx) => {
+        const isCorrect = correctIndices?.includes(idx) ?? false;
+        const dimmed = correctIndices !== undefined && !isCorrect;
+        return (
+          <div key={idx} className={`text-sm ${dimmed ? "text-foreground/60" : ""}`}>
+            <div className="flex items-center justify-between gap-2">
+              <div className={isCorrect ? "font-semibold" : ""}>
+                <span className="mr-2 font-mono text-foreground/70">{String.fromCharCode(65 + idx)}</span>
+                {choice}
+                {isCorrect ? " ✓" : ""}
+                {choiceImages?.[idx] ? (
+                  <UploadedImage name={choiceImages[idx]} className="mt-1 max-h-16" />
+                ) : null}
+              </div>
+              <div className="font-mono">{counts[idx] ?? 0}</div>
+            </div>
+            <div className="mt-1 h-2 rounded-full bg-foreground/10">
+              <div
+                className={`h-2 rounded-full transition-all ${dimmed ? "bg-foreground/30" : "bg-foreground"}`}
+                style={{ width: `${((counts[idx] ?? 0) / top) * 100}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function sendMessage(ws: WebSocket, msg: ClientMessage) {
+  ws.send(JSON.stringify(msg));
+}
 
 function getWsUrl() {
   const envUrl = process.env.NEXT_PUBLIC_WS_URL;
@@ -66,6 +168,9 @@ function getWsUrl() {
   return `${protocol}://localhost:3001`;
 }
 
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 10000;
+
 export default function HostRoomClient({
   pin,
   hostKeyParam,
@@ -78,25 +183,44 @@ export default function HostRoomClient({
   const [room, setRoom] = useState<Room | null>(null);
 
   const [players, setPlayers] = useState<Player[]>([]);
-  const [wsStatus, setWsStatus] = useState<"connecting" | "connected" | "error">(
-    "connecting",
-  );
+  // Joiners waiting for the host to let them in, when the room requires approval.
+  const [pendingPlayers, setPendingPlayers] = useState<Player[]>([]);
+  const [wsStatus, setWsStatus] = useState<
+    "connecting" | "connected" | "reconnecting" | "error"
+  >("connecting");
   const [hostWsError, setHostWsError] = useState<string | null>(null);
   const [question, setQuestion] = useState<{
     questionIndex: number;
     totalQuestions: number;
     text: string;
-    choices?: [string, string, string, string];
+    questionType: QuestionType;
+    choices: string[];
+    image?: string;
+    choiceImages?: string[];
+    pointsMultiplier: number;
     endsAt: number;
+    paused: boolean;
+    remainingMs: number;
   } | null>(null);
+  const [gameRunning, setGameRunning] = useState(false);
   const [leaderboard, setLeaderboard] = useState<
-    Array<{ id: string; nickname: string; score: number }> | null
+    LeaderboardEntry[] | null
   >(null);
   const [leaderboardTitle, setLeaderboardTitle] = useState<string | null>(null);
+  const [teamLeaderboard, setTeamLeaderboard] = useState<TeamStanding[] | null>(null);
+  const [liveResults, setLiveResults] = useState<QuestionResults | null>(null);
+  const [answerCount, setAnswerCount] = useState<{ answered: number; total: number } | null>(null);
+  // How the room answered the last question, shown before the ranking.
+  const [overview, setOverview] = useState<QuestionOverview | null>(null);
+  const [rankingAt, setRankingAt] = useState<number | null>(null);
   const [nextQuestionAt, setNextQuestionAt] = useState<number | null>(null);
   const [gameStartsAt, setGameStartsAt] = useState<number | null>(null);
   const [nowMs, setNowMs] = useState<number>(() => Date.now());
   const [starting, setStarting] = useState(false);
+  // The player whose kick / ban menu is open in the waiting list.
+  const [playerMenu, setPlayerMenu] = useState<string | null>(null);
+  // A locked lobby takes no new players; players already in can still reconnect.
+  const [locked, setLocked] = useState(false);
 
   const hostKey = useMemo(() => hostKeyParam.trim(), [hostKeyParam]);
 
@@ -136,7 +260,12 @@ export default function HostRoomClient({
           | null;
 
         if (!res.ok || !json || !json.room) {
-          const msg = json?.error === "NOT_FOUND" ? "Room not found" : "Invalid host key";
+          const msg =
+            json?.error === "NOT_FOUND"
+              ? "Room not found"
+              : json?.error === "RATE_LIMITED"
+                ? "Too many wrong PINs. Wait a few minutes, then try again."
+                : "Invalid host key";
           if (!cancelled) {
             setStatus("error");
             setError(msg);
@@ -177,106 +306,201 @@ export default function HostRoomClient({
     setLeaderboard(null);
     setLeaderboardTitle(null);
 
-    const ws = new WebSocket(getWsUrl());
-    wsRef.current = ws;
+    let disposed = false;
+    let fatal = false;
+    let attempt = 0;
+    let retryTimer: number | null = null;
 
-    ws.addEventListener("open", () => {
-      ws.send(JSON.stringify({ type: "host_join", pin, hostKey }));
-    });
+    function connect() {
+      const ws = new WebSocket(getWsUrl());
+      wsRef.current = ws;
+      let welcomed = false;
 
-    ws.addEventListener("message", (event) => {
-      let msg: HostMessage;
-      try {
-        msg = JSON.parse(String(event.data));
-      } catch {
-        return;
-      }
+      ws.addEventListener("open", () => {
+        sendMessage(ws, { type: "host_join", pin, hostKey, v: PROTOCOL_VERSION });
+      });
 
-      if (typeof msg.serverNow === "number" && Number.isFinite(msg.serverNow)) {
-        serverOffsetMsRef.current = msg.serverNow - Date.now();
-        setNowMs(Date.now() + serverOffsetMsRef.current);
-      }
+      ws.addEventListener("message", (event) => {
+        const msg = readServerMessage(String(event.data));
+        if (!msg) return;
 
-      if (msg.type === "host_welcome") {
-        setWsStatus("connected");
-        setPlayers(msg.players);
-        return;
-      }
+        if (typeof msg.serverNow === "number" && Number.isFinite(msg.serverNow)) {
+          serverOffsetMsRef.current = msg.serverNow - Date.now();
+          setNowMs(Date.now() + serverOffsetMsRef.current);
+        }
 
-      if (msg.type === "room_update") {
-        setPlayers(msg.players.filter((p) => p.nickname !== "(host)"));
-        return;
-      }
+        if (msg.type === "host_welcome") {
+          if (msg.protocolVersion !== PROTOCOL_VERSION) {
+            fatal = true;
+            setWsStatus("error");
+            setHostWsError("The game server was updated. Reload the page to keep hosting.");
+            ws.close();
+            return;
+          }
+          welcomed = true;
+          attempt = 0;
+          setWsStatus("connected");
+          setHostWsError(null);
+          setPlayers(msg.players);
+          setLocked(msg.locked ?? false);
+          setGameRunning(msg.state === "running");
+          // The server replays the current phase right after the welcome.
+          setQuestion(null);
+          setLeaderboard(null);
+          setLeaderboardTitle(null);
+          setOverview(null);
+          setLiveResults(null);
+          setNextQuestionAt(null);
+          setGameStartsAt(null);
+          return;
+        }
 
-      if (msg.type === "starting") {
-        setLeaderboard(null);
-        setLeaderboardTitle(null);
-        setQuestion(null);
-        setNextQuestionAt(null);
-        setGameStartsAt(msg.startsAt);
-        return;
-      }
+        if (msg.type === "room_update") {
+          setPlayers(msg.players.filter((p) => p.nickname !== "(host)"));
+          return;
+        }
 
-      if (msg.type === "game_started") {
-        setLeaderboard(null);
-        setLeaderboardTitle(null);
-        setQuestion(null);
-        setNextQuestionAt(null);
-        setGameStartsAt(null);
-        prevScoresRef.current = new Map();
-        return;
-      }
+        if (msg.type === "lobby_locked") {
+          setLocked(msg.locked);
+          return;
+        }
 
-      if (msg.type === "question") {
-        setLeaderboard(null);
-        setLeaderboardTitle(null);
-        setNextQuestionAt(null);
-        setGameStartsAt(null);
-        setQuestion({
-          questionIndex: msg.questionIndex,
-          totalQuestions: msg.totalQuestions,
-          text: msg.text,
-          choices: msg.choices,
-          endsAt: msg.endsAt,
-        });
-        return;
-      }
+        if (msg.type === "pending_players") {
+          setPendingPlayers(msg.players);
+          return;
+        }
 
-      if (msg.type === "question_over") {
-        setQuestion(null);
-        setLeaderboard(msg.leaderboard);
-        setLeaderboardTitle(`Ranking (Q${msg.questionIndex + 1})`);
-        setNextQuestionAt(msg.nextQuestionAt);
-        setGameStartsAt(null);
-        return;
-      }
+        if (msg.type === "starting") {
+          setLeaderboard(null);
+          setLeaderboardTitle(null);
+          setOverview(null);
+          setLiveResults(null);
+          setQuestion(null);
+          setNextQuestionAt(null);
+          setGameStartsAt(msg.startsAt);
+          setGameRunning(true);
+          return;
+        }
 
-      if (msg.type === "game_over") {
-        setQuestion(null);
-        setLeaderboard(msg.leaderboard);
-        setLeaderboardTitle("Final ranking");
-        setNextQuestionAt(null);
-        setGameStartsAt(null);
-        return;
-      }
+        if (msg.type === "game_started") {
+          setLeaderboard(null);
+          setLeaderboardTitle(null);
+          setOverview(null);
+          setLiveResults(null);
+          setQuestion(null);
+          setNextQuestionAt(null);
+          setGameStartsAt(null);
+          prevScoresRef.current = new Map();
+          return;
+        }
 
-      if (msg.type === "error") {
-        setWsStatus("error");
-        setHostWsError(msg.message);
-      }
-    });
+        if (msg.type === "question") {
+          setOverview(null);
+          setLiveResults(null);
+          setAnswerCount(null);
+          setLeaderboard(null);
+          setLeaderboardTitle(null);
+          setNextQuestionAt(null);
+          setGameStartsAt(null);
+          setQuestion({
+            questionIndex: msg.questionIndex,
+            totalQuestions: msg.totalQuestions,
+            text: msg.text,
+            questionType: msg.questionType,
+            choices: msg.choices,
+            image: msg.image,
+            choiceImages: msg.choiceImages,
+            pointsMultiplier: msg.pointsMultiplier,
+            endsAt: msg.endsAt,
+            paused: msg.paused,
+            remainingMs: msg.remainingMs,
+          });
+          setGameRunning(true);
+          return;
+        }
+
+        if (msg.type === "question_timer") {
+          setQuestion((prev) =>
+            prev && prev.questionIndex === msg.questionIndex
+              ? { ...prev, endsAt: msg.endsAt, paused: msg.paused, remainingMs: msg.remainingMs }
+              : prev,
+          );
+          return;
+        }
+
+        if (msg.type === "answer_count") {
+          setAnswerCount({ answered: msg.answered, total: msg.total });
+          return;
+        }
+
+        if (msg.type === "live_results") {
+          setLiveResults(msg.results);
+          return;
+        }
+
+        if (msg.type === "question_over") {
+          setQuestion(null);
+          setLiveResults(null);
+          setOverview({
+            questionIndex: msg.questionIndex,
+            text: msg.text,
+            questionType: msg.questionType,
+            choices: msg.choices,
+            image: msg.image,
+            choiceImages: msg.choiceImages,
+            reveal: msg.reveal,
+            results: msg.results,
+            spread: msg.spread,
+          });
+          setRankingAt(msg.rankingAt);
+          setLeaderboard(msg.leaderboard);
+          setTeamLeaderboard(msg.teamLeaderboard);
+          setLeaderboardTitle(`Ranking (Q${msg.questionIndex + 1})`);
+          setNextQuestionAt(msg.nextQuestionAt);
+          setGameStartsAt(null);
+          setGameRunning(true);
+          return;
+        }
+
+        if (msg.type === "game_over") {
+          setQuestion(null);
+          setOverview(null);
+          setLiveResults(null);
+          setLeaderboard(msg.leaderboard);
+          setTeamLeaderboard(msg.teamLeaderboard);
+          setLeaderboardTitle("Final ranking");
+          setNextQuestionAt(null);
+          setGameStartsAt(null);
+          setGameRunning(false);
+          return;
+        }
 
-    ws.addEventListener("close", () => {
-      setWsStatus((prev) => (prev === "error" ? prev : "connecting"));
-    });
+        if (msg.type === "error") {
+          setHostWsError(msg.message);
+          // Failing to join (or being replaced by another host tab) should not retry.
+          if (!welcomed || msg.code === "HOST_REPLACED") {
+            fatal = true;
+            setWsStatus("error");
+            ws.close();
+          }
+        }
+      });
+
+      ws.addEventListener("close", () => {
+        if (disposed || fatal) return;
+        setWsStatus("reconnecting");
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+        attempt += 1;
+        retryTimer = window.setTimeout(connect, delay);
+      });
+    }
 
-    ws.addEventListener("error", () => {
-      setWsStatus("error");
-      setHostWsError("WebSocket connection failed");
-    });
+    connect();
 
     return () => {
-      ws.close();
+      disposed = true;
+      if (retryTimer !== null) window.clearTimeout(retryTimer);
+      wsRef.current?.close();
     };
   }, [status, pin, hostKey]);
 
@@ -291,27 +515,57 @@ export default function HostRoomClient({
     return Math.max(0, Math.ceil((gameStartsAt - nowMs) / 1000));
   }, [gameStartsAt, nowMs]);
 
+  const revealing = overview !== null && rankingAt !== null && nowMs < rankingAt;
+
   useEffect(() => {
-    if (!leaderboard) return;
+    // Wait until the ranking is on screen so its scores still animate from last round.
+    if (!leaderboard || revealing) return;
     const next = new Map(prevScoresRef.current);
     for (const p of leaderboard) next.set(p.id, p.score);
     prevScoresRef.current = next;
-  }, [leaderboard]);
+  }, [leaderboard, revealing]);
 
   const secondsLeft = useMemo(() => {
     if (!question) return null;
+    if (question.paused) return Math.ceil(question.remainingMs / 1000);
     return Math.max(0, Math.ceil((question.endsAt - nowMs) / 1000));
   }, [question, nowMs]);
 
   async function onStart() {
     setStarting(true);
     try {
-      wsRef.current?.send(JSON.stringify({ type: "host_start", pin }));
+      if (wsRef.current) sendMessage(wsRef.current, { type: "host_start", pin });
     } finally {
       setStarting(false);
     }
   }
 
+  function sendHostAction(
+    type: "host_pause" | "host_resume" | "host_extend" | "host_skip" | "host_next" | "host_end",
+    extra?: { seconds?: number },
+  ) {
+    if (wsRef.current) sendMessage(wsRef.current, { type, pin, ...extra });
+  }
+
+  function sendPlayerAction(type: "host_admit" | "host_decline", playerId: string) {
+    if (wsRef.current) sendMessage(wsRef.current, { type, pin, playerId });
+  }
+
+  function onRemovePlayer(player: Player, type: "host_kick" | "host_ban") {
+    setPlayerMenu(null);
+    const question =
+      type === "host_ban"
+        ? `Ban ${player.nickname}? They won't be able to join this game again from this device.`
+        : `Kick ${player.nickname}? Their score is removed, but they can join again.`;
+    if (!window.confirm(question)) return;
+    if (wsRef.current) sendMessage(wsRef.current, { type, pin, playerId: player.id });
+  }
+
+  function onEndGame() {
+    if (!window.confirm("End the game now? Players will see the final ranking.")) return;
+    sendHostAction("host_end");
+  }
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       <main className="mx-auto flex min-h-screen w-full max-w-xl flex-col px-6 py-10">
@@ -331,6 +585,7 @@ export default function HostRoomClient({
                 {status === "error" && "Error"}
                 {status === "ready" && wsStatus === "connecting" && " (WS connecting…)"}
                 {status === "ready" && wsStatus === "connected" && " (WS connected)"}
+                {status === "ready" && wsStatus === "reconnecting" && " (WS reconnecting…)"}
               </div>
             </div>
 
@@ -349,6 +604,51 @@ export default function HostRoomClient({
             </button>
           </div>
 
+          {gameRunning && wsStatus === "connected" ? (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {question ? (
+                <>
+                  <button
+                    type="button"
+                    className="h-10 rounded-xl border border-foreground/10 px-4 text-sm hover:bg-foreground/5"
+                    onClick={() => sendHostAction(question.paused ? "host_resume" : "host_pause")}
+                  >
+                    {question.paused ? "Resume" : "Pause"}
+                  </button>
+                  <button
+                    type="button"
+                    className="h-10 rounded-xl border border-foreground/10 px-4 text-sm hover:bg-foreground/5"
+                    onClick={() => sendHostAction("host_extend", { seconds: 10 })}
+                  >
+                    +10s
+                  </button>
+                  <button
+                    type="button"
+                    className="h-10 rounded-xl border border-foreground/10 px-4 text-sm hover:bg-foreground/5"
+                    onClick={() => sendHostAction("host_skip")}
+                  >
+                    Skip
+                  </button>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  className="h-10 rounded-xl border border-foreground/10 px-4 text-sm hover:bg-foreground/5"
+                  onClick={() => sendHostAction("host_next")}
+                >
+                  Next
+                </button>
+              )}
+              <button
+                type="button"
+                className="h-10 rounded-xl border border-foreground/10 px-4 text-sm hover:bg-foreground/5"
+                onClick={onEndGame}
+              >
+                End game
+              </button>
+            </div>
+          ) : null}
+
           {error ? (
             <div className="mt-4 rounded-xl border border-foreground/10 bg-background p-4 text-sm">
               <div className="font-medium">{error}</div>
@@ -366,26 +666,136 @@ export default function HostRoomClient({
             </div>
           ) : null}
 
+          {status === "ready" && pendingPlayers.length ? (
+            <div className="mt-6">
+              <div className="flex items-center justify-between">
+                <div className="text-sm text-foreground/70">Asking to join</div>
+                <button
+                  type="button"
+                  className="text-sm underline"
+                  onClick={() => pendingPlayers.forEach((p) => sendPlayerAction("host_admit", p.id))}
+                >
+                  Admit all
+                </button>
+              </div>
+              <ul className="mt-3 grid grid-cols-1 gap-2">
+                {pendingPlayers.map((p) => (
+                  <li
+                    key={p.id}
+                    className="flex items-center justify-between gap-2 rounded-xl border border-foreground/10 px-3 py-2 text-sm"
+                  >
+                    <div className="min-w-0">{p.nickname}</div>
+                    <div className="flex shrink-0 gap-3">
+                      <button
+                        type="button"
+                        className="font-medium underline"
+                        onClick={() => sendPlayerAction("host_admit", p.id)}
+                      >
+                        Admit
+                      </button>
+                      <button
+                        type="button"
+                        className="underline"
+                        onClick={() => sendPlayerAction("host_decline", p.id)}
+                      >
+                        Decline
+                      </button>
+                      <button type="button" className="underline" onClick={() => onRemovePlayer(p, "host_ban")}>
+                        Ban
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
           {status === "ready" ? (
             <div className="mt-6">
               <div className="flex items-center justify-between">
                 <div className="text-sm text-foreground/70">Waiting list</div>
-                <div className="text-sm font-medium">{players.length}</div>
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    className="rounded-lg border border-foreground/15 px-2 py-1 text-xs hover:bg-foreground/5 disabled:opacity-60"
+                    disabled={wsStatus !== "connected"}
+                    onClick={() => {
+                      if (wsRef.current) sendMessage(wsRef.current, { type: "host_lock", pin, locked: !locked });
+                    }}
+                  >
+                    {locked ? "Unlock lobby" : "Lock lobby"}
+                  </button>
+                  <div className="text-sm font-medium">{players.length}</div>
+                </div>
               </div>
 
               <ul className="mt-3 grid grid-cols-1 gap-2 sm:grid-cols-2">
                 {players.map((p) => (
                   <li
                     key={p.id}
-                    className="rounded-xl border border-foreground/10 px-3 py-2 text-sm"
+                    className="relative flex items-center justify-between gap-2 rounded-xl border border-foreground/10 px-3 py-2 text-sm"
                   >
-                    {p.nickname}
+                    <div className="min-w-0">
+                      {p.nickname}
+                      {p.team ? <span className="ml-2 text-xs text-foreground/60">{p.team}</span> : null}
+                      {p.spectator ? <span className="ml-2 text-xs text-foreground/60">(watching)</span> : null}
+                      {p.connected === false ? (
+                        <span className="ml-2 text-xs text-foreground/60">(offline)</span>
+                      ) : null}
+                    </div>
+                    <button
+                      type="button"
+                      aria-label={`Actions for ${p.nickname}`}
+                      aria-haspopup="menu"
+                      aria-expanded={playerMenu === p.id}
+                      className="shrink-0 rounded-lg px-2 text-foreground/60 hover:bg-foreground/5"
+                      onClick={() => setPlayerMenu((open) => (open === p.id ? null : p.id))}
+                    >
+                      ⋯
+                    </button>
+                    {playerMenu === p.id ? (
+                      <div
+                        role="menu"
+                        className="absolute right-2 top-full z-10 mt-1 flex flex-col rounded-xl border border-foreground/10 bg-background py-1 text-sm shadow"
+                      >
+                        <button
+                          type="button"
+                          role="menuitem"
+                          className="px-4 py-2 text-left hover:bg-foreground/5"
+                          onClick={() => onRemovePlayer(p, "host_kick")}
+                        >
+                          Kick
+                        </button>
+                        <button
+                          type="button"
+                          role="menuitem"
+                          className="px-4 py-2 text-left hover:bg-foreground/5"
+                          onClick={() => onRemovePlayer(p, "host_ban")}
+                        >
+                          Ban from this game
+                        </button>
+                      </div>
+                    ) : null}
                   </li>
                 ))}
               </ul>
 
-              <div className="mt-6 text-sm text-foreground/70">
-                Questions: {room?.quiz?.questions?.length ?? 0}
+              <div className="mt-6 flex items-center justify-between text-sm text-foreground/70">
+                <div>Questions: {room?.quiz?.questions?.length ?? 0}</div>
+                <div className="flex gap-3">
+                  <Link
+                    className="underline"
+                    href={`/create?pin=${encodeURIComponent(pin)}&hostKey=${encodeURIComponent(hostKey)}`}
+                  >
+                    Edit quiz
+                  </Link>
+                  <Link
+                    className="underline"
+                    href={`/host/${encodeURIComponent(pin)}/reports?hostKey=${encodeURIComponent(hostKey)}`}
+                  >
+                    Past results
+                  </Link>
+                </div>
               </div>
 
               {question ? (
@@ -394,25 +804,66 @@ export default function HostRoomClient({
                     <div className="text-sm text-foreground/70">
                       Question {question.questionIndex + 1} / {question.totalQuestions}
                     </div>
-                    <div className="text-sm font-semibold">
-                      {secondsLeft ?? "—"}s
+                    <div className="text-right">
+                      <div className="text-sm font-semibold">
+                        {question.paused ? "Paused · " : ""}
+                        {secondsLeft ?? "—"}s
+                      </div>
+                      {answerCount ? (
+                        <div className="text-xs text-foreground/60">
+                          {answerCount.answered} of {answerCount.total} answered
+                        </div>
+                      ) : null}
                     </div>
                   </div>
                   <div className="mt-2 text-base font-semibold">{question.text}</div>
-
-                  <div className="mt-4 grid grid-cols-1 gap-2 sm:grid-cols-2">
-                    {(question.choices ?? ["", "", "", ""]).map((choice, idx) => (
-                      <div
-                        key={idx}
-                        className="rounded-xl border border-foreground/10 bg-background px-3 py-2 text-sm"
-                      >
-                        <span className="mr-2 font-mono text-foreground/70">
-                          {String.fromCharCode(65 + idx)}
-                        </span>
-                        {choice}
-                      </div>
-                    ))}
-                  </div>
+                  {question.image ? (
+                    <UploadedImage name={question.image} className="mx-auto mt-3 max-h-96" />
+                  ) : null}
+                  {question.questionType === "multi" ? (
+                    <div className="mt-1 text-xs text-foreground/60">Select all that apply</div>
+                  ) : question.questionType === "type_answer" ? (
+                    <div className="mt-1 text-xs text-foreground/60">Players type their answer</div>
+                  ) : question.questionType === "slider" ? (
+                    <div className="mt-1 text-xs text-foreground/60">Players pick a number</div>
+                  ) : question.questionType === "poll" || question.questionType === "word_cloud" ? (
+                    <div className="mt-1 text-xs text-foreground/60">No points</div>
+                  ) : null}
+                  {question.pointsMultiplier !== 1 &&
+                  question.questionType !== "poll" &&
+                  question.questionType !== "word_cloud" ? (
+                    <div className="mt-1 text-xs font-semibold">
+                      {question.pointsMultiplier === 0 ? "No points" : `${question.pointsMultiplier}× points`}
+                    </div>
+                  ) : null}
+
+                  {question.questionType === "poll" || question.questionType === "word_cloud" ? (
+                    <ResultsChart
+                      results={
+                        liveResults ??
+                        (question.questionType === "poll" ? { total: 0, counts: [] } : { total: 0, words: [] })
+                      }
+                      choices={question.choices}
+                      choiceImages={question.choiceImages}
+                    />
+                  ) : (
+                    <div className="mt-4 grid grid-cols-1 gap-2 sm:grid-cols-2">
+                      {question.choices.map((choice, idx) => (
+                        <div
+                          key={idx}
+                          className="rounded-xl border border-foreground/10 bg-background px-3 py-2 text-sm"
+                        >
+                          <span className="mr-2 font-mono text-foreground/70">
+                            {String.fromCharCode(65 + idx)}
+                          </span>
+                          {choice}
+                          {question.choiceImages?.[idx] ? (
+                            <UploadedImage name={question.choiceImages[idx]} className="mt-2 max-h-32" />
+                          ) : null}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ) : null}
 
@@ -428,7 +879,44 @@ export default function HostRoomClient({
                 </div>
               ) : null}
 
-              {leaderboard ? (
+              {overview && revealing ? (
+                <div className="mt-6 rounded-2xl border border-foreground/10 bg-background p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="text-sm text-foreground/70">
+                      Question {overview.questionIndex + 1}
+                    </div>
+                    <div className="text-xs text-foreground/60">
+                      {overview.results.total} answered
+                    </div>
+                  </div>
+                  <div className="mt-2 text-lg font-semibold">{overview.text}</div>
+                  {overview.image ? (
+                    <UploadedImage name={overview.image} className="mx-auto mt-3 max-h-48" />
+                  ) : null}
+
+                  {overview.reveal?.acceptedAnswers ? (
+                    <div className="mt-3 rounded-xl border border-foreground/10 px-3 py-2 text-sm">
+                      <span className="text-foreground/70">Answer: </span>
+                      <span className="font-semibold">
+                        {overview.reveal.acceptedAnswers.join(" / ")}
+                      </span>
+                    </div>
+                  ) : null}
+
+                  {overview.spread ? (
+                    <SliderSpreadView spread={overview.spread} />
+                  ) : (
+                    <ResultsChart
+                      results={overview.results}
+                      choices={overview.choices}
+                      choiceImages={overview.choiceImages}
+                      correctIndices={overview.reveal?.correctIndices}
+                    />
+                  )}
+                </div>
+              ) : null}
+
+              {leaderboard && !revealing ? (
                 <div className="mt-6 rounded-2xl border border-foreground/10 bg-background p-4">
                   <div className="flex items-center justify-between gap-4">
                     <div className="text-sm font-semibold">
@@ -439,6 +927,25 @@ export default function HostRoomClient({
                     </div>
                   </div>
 
+                  {teamLeaderboard ? (
+                    <div className="mt-3 grid grid-cols-1 gap-2">
+                      {teamLeaderboard.map((t, idx) => (
+                        <div
+                          key={t.team}
+                          className="flex items-center justify-between rounded-xl border border-foreground/10 px-3 py-2 text-sm"
+                        >
+                          <div className="font-semibold">
+                            #{idx + 1} {t.team}
+                            <span className="ml-2 text-xs font-normal text-foreground/60">
+                              {t.players} {t.players === 1 ? "player" : "players"}
+                            </span>
+                          </div>
+                          <div className="font-mono">{t.score}</div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : null}
+
                   <div className="mt-3 fireworks">
                     <div className="firework" />
                     <div className="firework" />
@@ -0,0 +1,296 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { withBasePath } from "@/lib/public-base-path";
+import type {
+  SessionAnswer,
+  SessionQuestion,
+  SessionResult,
+  SessionSummary,
+} from "@/lib/results-store";
+import { formatSessionAnswer, formatSessionReveal } from "@/lib/session-report";
+
+function formatDateTime(iso: string) {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+function formatSeconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function resultMark(answer: SessionAnswer) {
+  if (!answer.graded) return "—";
+  if (answer.correct) return "✓";
+  return answer.credit > 0 ? "Partly" : "✗";
+}
+
+function QuestionReport({ question }: { question: SessionQuestion }) {
+  const [open, setOpen] = useState(false);
+  const graded = question.reveal !== null;
+  const correctCount = question.answers.filter((a) => a.correct).length;
+  const avgMs = question.answers.length
+    ? question.answers.reduce((sum, a) => sum + a.elapsedMs, 0) / question.answers.length
+    : null;
+
+  return (
+    <div className="rounded-xl border border-foreground/10 px-3 py-2 text-sm">
+      <button
+        type="button"
+        className="flex w-full items-center justify-between gap-4 text-left"
+        onClick={() => setOpen((prev) => !prev)}
+      >
+        <div className="font-medium">
+          {question.index + 1}. {question.text}
+        </div>
+        <div className="shrink-0 text-xs text-foreground/60">
+          {graded
+            ? `${correctCount}/${question.answers.length} correct`
+            : `${question.answers.length} answers`}
+          {avgMs !== null ? ` · avg ${formatSeconds(avgMs)}` : ""}
+        </div>
+      </button>
+
+      {open ? (
+        <div className="mt-3">
+          <div className="text-xs text-foreground/70">Answer: {formatSessionReveal(question)}</div>
+          {question.answers.length === 0 ? (
+            <div className="mt-2 text-xs text-foreground/60">Nobody answered</div>
+          ) : (
+            <table className="mt-2 w-full text-left text-xs">
+              <thead className="text-foreground/60">
+                <tr>
+                  <th className="py-1 font-normal">Player</th>
+                  <th className="py-1 font-normal">Answer</th>
+                  <th className="py-1 font-normal">Result</th>
+                  <th className="py-1 text-right font-normal">Points</th>
+                  <th className="py-1 text-right font-normal">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...question.answers]
+                  .sort((a, b) => a.elapsedMs - b.elapsedMs)
+                  .map((answer) => (
+                    <tr key={answer.playerId} className="border-t border-foreground/10">
+                      <td className="py-1">{answer.nickname}</td>
+                      <td className="py-1">{formatSessionAnswer(question, answer)}</td>
+                      <td className="py-1">{resultMark(answer)}</td>
+                      <td className="py-1 text-right font-mono">{answer.delta}</td>
+                      <td className="py-1 text-right font-mono">{formatSeconds(answer.elapsedMs)}</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default function ReportsClient({
+  pin,
+  hostKeyParam,
+}: {
+  pin: string;
+  hostKeyParam: string;
+}) {
+  const hostKey = useMemo(() => hostKeyParam.trim(), [hostKeyParam]);
+  const [status, setStatus] = useState<"loading" | "ready" | "error">("loading");
+  const [error, setError] = useState<string | null>(null);
+  const [roomTitle, setRoomTitle] = useState("");
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [session, setSession] = useState<SessionResult | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+
+  const query = `pin=${encodeURIComponent(pin)}&hostKey=${encodeURIComponent(hostKey)}`;
+
+  useEffect(() => {
+    if (!hostKey) return;
+    let cancelled = false;
+
+    async function load() {
+      try {
+        const res = await fetch(withBasePath(`/api/reports?${query}`), { cache: "no-store" });
+        const json = (await res.json().catch(() => null)) as
+          | { room?: { title: string }; sessions?: SessionSummary[]; error?: string }
+          | null;
+        if (cancelled) return;
+        if (!res.ok || !json?.sessions) {
+          setStatus("error");
+          setError(
+            json?.error === "RATE_LIMITED"
+              ? "Too many wrong PINs or host keys. Wait a few minutes, then try again."
+              : "Wrong PIN or host key",
+          );
+          return;
+        }
+        setRoomTitle(json.room?.title ?? "");
+        setSessions(json.sessions);
+        setStatus("ready");
+      } catch {
+        if (!cancelled) {
+          setStatus("error");
+          setError("Failed to load reports");
+        }
+      }
+    }
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [hostKey, query]);
+
+  async function openSession(id: string) {
+    setSessionError(null);
+    try {
+      const res = await fetch(
+        withBasePath(`/api/reports?${query}&session=${encodeURIComponent(id)}`),
+        { cache: "no-store" },
+      );
+      const json = (await res.json().catch(() => null)) as { session?: SessionResult } | null;
+      if (!res.ok || !json?.session) {
+        setSessionError("Failed to load session");
+        return;
+      }
+      setSession(json.session);
+    } catch {
+      setSessionError("Failed to load session");
+    }
+  }
+
+  const effectiveStatus = hostKey ? status : "error";
+  const effectiveError = hostKey ? error : "Missing host key";
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <main className="mx-auto flex min-h-screen w-full max-w-2xl flex-col px-6 py-10">
+        <header className="mb-8">
+          <div className="text-sm text-foreground/70">Reports for PIN</div>
+          <div className="text-3xl font-semibold tracking-tight">{pin}</div>
+          <div className="mt-2 text-foreground/70">{roomTitle}</div>
+          <Link
+            className="mt-2 inline-block text-sm underline"
+            href={`/host/${encodeURIComponent(pin)}?hostKey=${encodeURIComponent(hostKey)}`}
+          >
+            Back to hosting
+          </Link>
+        </header>
+
+        <section className="rounded-2xl border border-foreground/10 bg-background p-5">
+          {effectiveStatus === "loading" ? (
+            <div className="text-sm text-foreground/70">Loading…</div>
+          ) : null}
+
+          {effectiveError ? <div className="text-sm font-medium">{effectiveError}</div> : null}
+
+          {sessionError ? (
+            <div className="mb-4 rounded-xl border border-foreground/10 px-4 py-3 text-sm">
+              {sessionError}
+            </div>
+          ) : null}
+
+          {effectiveStatus === "ready" && session ? (
+            <div>
+              <button
+                type="button"
+                className="rounded-lg px-2 py-1 text-xs hover:bg-foreground/5"
+                onClick={() => setSession(null)}
+              >
+                ← All sessions
+              </button>
+              <div className="mt-2 text-lg font-semibold">{formatDateTime(session.startedAt)}</div>
+              <div className="text-xs text-foreground/60">
+                {session.questions.length}/{session.totalQuestions} questions ·{" "}
+                {session.players.length} players
+                {session.endedEarly ? " · ended early" : ""}
+              </div>
+              <div className="mt-3 flex gap-2 text-sm">
+                {(["csv", "xlsx"] as const).map((format) => (
+                  <a
+                    key={format}
+                    className="rounded-lg border border-foreground/10 px-3 py-1 hover:bg-foreground/5"
+                    href={withBasePath(
+                      `/api/export?${query}&session=${encodeURIComponent(session.id)}&format=${format}`,
+                    )}
+                  >
+                    Download {format.toUpperCase()}
+                  </a>
+                ))}
+              </div>
+
+              {session.teamLeaderboard ? (
+                <div className="mt-4">
+                  <div className="text-sm font-semibold">Teams</div>
+                  <div className="mt-2 grid grid-cols-1 gap-2">
+                    {session.teamLeaderboard.map((t, idx) => (
+                      <div
+                        key={t.team}
+                        className="flex items-center justify-between rounded-xl border border-foreground/10 px-3 py-2 text-sm"
+                      >
+                        <div>
+                          #{idx + 1} {t.team}
+                          <span className="ml-2 text-xs text-foreground/60">{t.players} players</span>
+                        </div>
+                        <div className="font-mono">{t.score}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+
+              <div className="mt-4 text-sm font-semibold">Final ranking</div>
+              <div className="mt-2 grid grid-cols-1 gap-2">
+                {session.players.map((p, idx) => (
+                  <div
+                    key={p.id}
+                    className="flex items-center justify-between rounded-xl border border-foreground/10 px-3 py-2 text-sm"
+                  >
+                    <div>
+                      #{idx + 1} {p.nickname}
+                      {p.team ? <span className="ml-2 text-xs text-foreground/60">{p.team}</span> : null}
+                    </div>
+                    <div className="font-mono">{p.score}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-6 text-sm font-semibold">Questions</div>
+              <div className="mt-2 grid grid-cols-1 gap-2">
+                {session.questions.map((q) => (
+                  <QuestionReport key={q.index} question={q} />
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {effectiveStatus === "ready" && !session ? (
+            sessions.length === 0 ? (
+              <div className="text-sm text-foreground/70">No finished games yet.</div>
+            ) : (
+              <div className="grid grid-cols-1 gap-2">
+                {sessions.map((s) => (
+                  <button
+                    key={s.id}
+                    type="button"
+                    className="rounded-xl border border-foreground/10 px-3 py-2 text-left text-sm hover:bg-foreground/5"
+                    onClick={() => void openSession(s.id)}
+                  >
+                    <div className="font-medium">{formatDateTime(s.startedAt)}</div>
+                    <div className="text-xs text-foreground/60">
+                      {s.playerCount} players · {s.questionCount}/{s.totalQuestions} questions
+                      {s.winner ? ` · winner ${s.winner.nickname} (${s.winner.score})` : ""}
+                      {s.endedEarly ? " · ended early" : ""}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )
+          ) : null}
+        </section>
+      </main>
+    </div>
+  );
+}
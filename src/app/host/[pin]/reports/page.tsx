@@ -0,0 +1,15 @@
+import ReportsClient from "./ReportsClient";
+
+export default async function HostReportsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ pin: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const { pin } = await params;
+  const sp = await searchParams;
+  const hostKeyParam = typeof sp.hostKey === "string" ? sp.hostKey : "";
+
+  return <ReportsClient pin={pin} hostKeyParam={hostKeyParam} />;
+}
@@ -2,12 +2,17 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { startHostSession } from "@/lib/host-session";
 
 export default function HostEntryPage() {
   const router = useRouter();
   const [pin, setPin] = useState("");
   const [hostKey, setHostKey] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [quizId, setQuizId] = useState("");
+  const [quizKey, setQuizKey] = useState("");
+  const [quizError, setQuizError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
 
   function onSubmit(event: React.FormEvent) {
     event.preventDefault();
@@ -32,6 +37,27 @@ export default function HostEntryPage() {
     );
   }
 
+  async function onHostQuiz(event: React.FormEvent) {
+    event.preventDefault();
+    setQuizError(null);
+
+    const normalizedId = quizId.trim().slice(0, 32);
+    const normalizedKey = quizKey.trim().slice(0, 64);
+    if (!normalizedId || !normalizedKey) {
+      setQuizError("Enter quiz ID and quiz key");
+      return;
+    }
+
+    setStarting(true);
+    const result = await startHostSession(normalizedId, normalizedKey);
+    setStarting(false);
+    if (!result.ok) {
+      setQuizError(result.error);
+      return;
+    }
+    router.push(result.href);
+  }
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       <main className="mx-auto flex min-h-screen w-full max-w-md flex-col justify-center px-6 py-12">
@@ -80,6 +106,47 @@ export default function HostEntryPage() {
             Continue
           </button>
         </form>
+
+        <form
+          onSubmit={onHostQuiz}
+          className="mt-6 rounded-2xl border border-foreground/10 bg-background p-5"
+        >
+          <div className="text-sm font-semibold">Host a saved quiz</div>
+          <p className="mt-1 text-sm text-foreground/70">Starts a new session with a fresh PIN.</p>
+
+          <label className="mt-4 block">
+            <span className="text-sm text-foreground/70">Quiz ID</span>
+            <input
+              value={quizId}
+              onChange={(e) => setQuizId(e.target.value)}
+              className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 font-mono text-sm outline-none focus:border-foreground/30"
+            />
+          </label>
+
+          <label className="mt-4 block">
+            <span className="text-sm text-foreground/70">Quiz key</span>
+            <input
+              value={quizKey}
+              onChange={(e) => setQuizKey(e.target.value)}
+              placeholder="(from Save)"
+              className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 font-mono text-sm outline-none focus:border-foreground/30"
+            />
+          </label>
+
+          {quizError ? (
+            <div className="mt-4 rounded-xl border border-foreground/10 px-4 py-3 text-sm">
+              {quizError}
+            </div>
+          ) : null}
+
+          <button
+            type="submit"
+            disabled={starting}
+            className="mt-5 flex h-12 w-full items-center justify-center rounded-xl bg-foreground px-5 text-background disabled:opacity-50"
+          >
+            {starting ? "Starting…" : "Start session"}
+          </button>
+        </form>
       </main>
     </div>
   );
@@ -4,58 +4,35 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { useFlipList } from "@/lib/useFlipList";
 import { withBasePath } from "@/lib/public-base-path";
+import { JOIN_BLOCK_MESSAGES, type JoinBlock } from "@/lib/room-settings";
 import AnimatedNumber from "@/components/AnimatedNumber";
-
-type Player = { id: string; nickname: string };
-
-type ServerMessage =
-  | ({
-      serverNow?: number;
-    } &
-      (
-        | {
-            type: "welcome";
-            id: string;
-            pin: string;
-            nickname: string;
-            players: Player[];
-          }
-        | { type: "room_update"; pin: string; players: Player[] }
-        | { type: "starting"; pin: string; startsAt: number }
-        | { type: "game_started"; pin: string }
-        | {
-            type: "question";
-            pin: string;
-            questionIndex: number;
-            totalQuestions: number;
-            text: string;
-            choices: [string, string, string, string];
-            endsAt: number;
-          }
-        | {
-            type: "answer_result";
-            pin: string;
-            questionIndex: number;
-            correct: boolean;
-            delta: number;
-            total: number;
-          }
-        | {
-            type: "question_over";
-            pin: string;
-            questionIndex: number;
-            nextQuestionAt: number;
-            leaderboard: Array<{ id: string; nickname: string; score: number }>;
-            top3: Array<{ id: string; nickname: string; score: number }>;
-          }
-        | {
-            type: "game_over";
-            pin: string;
-            leaderboard: Array<{ id: string; nickname: string; score: number }>;
-            top3: Array<{ id: string; nickname: string; score: number }>;
-          }
-        | { type: "error"; code?: string; message: string }
-      ));
+import UploadedImage from "@/components/UploadedImage";
+import {
+  PROTOCOL_VERSION,
+  readServerMessage,
+  type AnswerResult,
+  type ClientMessage,
+  type LeaderboardEntry,
+  type Player,
+  type QuestionOutcome,
+  type QuestionType,
+  type Reveal,
+  type ScoreBreakdown,
+  type SliderSettings,
+  type SubmittedAnswer,
+  type TeamStanding,
+} from "@/lib/protocol/index.mjs";
+
+type RevealedQuestion = {
+  questionIndex: number;
+  text: string;
+  questionType: QuestionType;
+  choices: string[];
+  image?: string;
+  choiceImages?: string[];
+  reveal: Reveal;
+  you: QuestionOutcome;
+};
 
 function getWsUrl() {
   const envUrl = process.env.NEXT_PUBLIC_WS_URL;
@@ -66,12 +43,88 @@ function getWsUrl() {
   return `${protocol}://localhost:3001`;
 }
 
+function sendMessage(ws: WebSocket, msg: ClientMessage) {
+  ws.send(JSON.stringify(msg));
+}
+
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 10000;
+
+/** Where the slider handle starts: the step nearest the middle of the range. */
+function sliderStart(slider: SliderSettings) {
+  const steps = Math.round((slider.max - slider.min) / slider.step / 2);
+  return slider.min + steps * slider.step;
+}
+
+function resultLabel(result: AnswerResult) {
+  const points = result.delta < 0 ? `${result.delta}` : `+${result.delta}`;
+  if (result.correct) return `Correct (${points})`;
+  return result.credit > 0 ? `Partly correct (${points})` : `Wrong (${points})`;
+}
+
+/** E.g. "Base 500 · Speed 312 · Streak 200 · ×2"; empty when there is nothing to explain. */
+function describeBreakdown(breakdown: ScoreBreakdown | undefined) {
+  if (!breakdown) return "";
+  const parts: string[] = [];
+  if (breakdown.base) parts.push(`Base ${breakdown.base}`);
+  if (breakdown.speed) parts.push(`Speed ${breakdown.speed}`);
+  if (breakdown.streak) parts.push(`Streak ${breakdown.streak}`);
+  if (breakdown.penalty) parts.push(`Wrong answer ${breakdown.penalty}`);
+  if (breakdown.multiplier === 0) parts.push("No points for this question");
+  else if (breakdown.multiplier !== 1) parts.push(`×${breakdown.multiplier}`);
+  return parts.join(" · ");
+}
+
+function outcomeLabel(revealed: RevealedQuestion) {
+  const { you } = revealed;
+  if (revealed.reveal === null) return you.answered ? "Thanks for answering" : "No answer";
+  if (!you.answered) return "No answer (+0)";
+  return resultLabel(you);
+}
+
+type ClosedReason = "kicked" | "banned" | "declined" | JoinBlock;
+
+/** What a player sees instead of the game when they were removed or couldn't get in. */
+const CLOSED_SCREENS: Record<ClosedReason, { title: string; detail: string }> = {
+  kicked: {
+    title: "The host removed you from this game",
+    detail: "Your score was cleared. You can join again with the game PIN.",
+  },
+  banned: { title: "The host removed you from this game", detail: "You can't join this game again." },
+  declined: {
+    title: "The host didn't let you in",
+    detail: "Check your nickname with the host, then try joining again.",
+  },
+  ROOM_LOCKED: { title: "This game is locked", detail: JOIN_BLOCK_MESSAGES.ROOM_LOCKED },
+  ROOM_FULL: { title: "This game is full", detail: "It already has as many players as the host allows." },
+  GAME_IN_PROGRESS: { title: "This game has already started", detail: JOIN_BLOCK_MESSAGES.GAME_IN_PROGRESS },
+};
+
+const JOIN_BLOCKS = new Set<string>(Object.keys(JOIN_BLOCK_MESSAGES));
+
+function resumeTokenKey(pin: string, nickname: string) {
+  return `kahoot-moph:resume:${pin}:${nickname}`;
+}
+
+/** A random ID kept in this browser, so a host's ban holds whatever nickname is used next. */
+function getDeviceId() {
+  const key = "kahoot-moph:device";
+  let id = window.localStorage.getItem(key);
+  if (!id) {
+    id = crypto.randomUUID();
+    window.localStorage.setItem(key, id);
+  }
+  return id;
+}
+
 export default function LobbyClient({
   pin,
   nicknameParam,
+  teamParam,
 }: {
   pin: string;
   nicknameParam: string;
+  teamParam: string;
 }) {
   const [roomTitle, setRoomTitle] = useState<string>("Lobby");
   const [roomLookupError, setRoomLookupError] = useState<string | null>(null);
@@ -115,30 +168,53 @@ export default function LobbyClient({
     return null;
   }, [roomLookupError, nicknameParam]);
 
-  const [status, setStatus] = useState<"connecting" | "connected" | "error">(
-    "connecting",
-  );
+  const [status, setStatus] = useState<
+    "connecting" | "pending" | "connected" | "reconnecting" | "error"
+  >("connecting");
   const [error, setError] = useState<string | null>(null);
+  // Set when the host removed this player or the room wouldn't take them.
+  const [closed, setClosed] = useState<ClosedReason | null>(null);
+  // Joined after the game got going, in a room where late joiners watch until the next game.
+  const [spectating, setSpectating] = useState(false);
   const [players, setPlayers] = useState<Player[]>([]);
   const [selfNickname, setSelfNickname] = useState<string>(nicknameParam);
+  const [selfTeam, setSelfTeam] = useState<string | null>(null);
 
   const [question, setQuestion] = useState<{
     questionIndex: number;
     totalQuestions: number;
     text: string;
-    choices: [string, string, string, string];
+    questionType: QuestionType;
+    choices: string[];
+    image?: string;
+    choiceImages?: string[];
+    slider?: SliderSettings;
+    pointsMultiplier: number;
     endsAt: number;
+    paused: boolean;
+    remainingMs: number;
   } | null>(null);
-  const [selectedChoice, setSelectedChoice] = useState<number | null>(null);
-  const [answerFeedback, setAnswerFeedback] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState<SubmittedAnswer | null>(null);
+  const [draftChoices, setDraftChoices] = useState<number[]>([]);
+  const [draftText, setDraftText] = useState("");
+  const [draftValue, setDraftValue] = useState<number | null>(null);
+  const [answerFeedback, setAnswerFeedback] = useState<{
+    label: string;
+    breakdown?: ScoreBreakdown;
+  } | null>(null);
+  const [answerCount, setAnswerCount] = useState<{ answered: number; total: number } | null>(null);
   const [score, setScore] = useState<number>(0);
   const [leaderboard, setLeaderboard] = useState<
-    Array<{ id: string; nickname: string; score: number }> | null
+    LeaderboardEntry[] | null
   >(null);
   const [leaderboardTitle, setLeaderboardTitle] = useState<string | null>(null);
+  const [teamLeaderboard, setTeamLeaderboard] = useState<TeamStanding[] | null>(null);
+  const [revealed, setRevealed] = useState<RevealedQuestion | null>(null);
+  const [rankingAt, setRankingAt] = useState<number | null>(null);
   const [nextQuestionAt, setNextQuestionAt] = useState<number | null>(null);
   const [gameStartsAt, setGameStartsAt] = useState<number | null>(null);
   const [nowMs, setNowMs] = useState<number>(() => Date.now());
+  const [hostAway, setHostAway] = useState(false);
 
   const { containerRef: leaderboardRef } = useFlipList(
     leaderboard ?? [],
@@ -163,132 +239,262 @@ export default function LobbyClient({
 
     const nickname = nicknameParam.trim();
 
-    const ws = new WebSocket(getWsUrl());
-    wsRef.current = ws;
+    const tokenKey = resumeTokenKey(pin, nickname);
+    const joinMessage: ClientMessage = {
+      type: "join",
+      pin,
+      nickname,
+      team: teamParam,
+      deviceId: getDeviceId(),
+      v: PROTOCOL_VERSION,
+    };
+    let disposed = false;
+    let fatal = false;
+    let attempt = 0;
+    let retryTimer: number | null = null;
+
+    function resetRound() {
+      setQuestion(null);
+      setSubmitted(null);
+      setDraftChoices([]);
+      setDraftText("");
+      setDraftValue(null);
+      setAnswerFeedback(null);
+      setLeaderboard(null);
+      setLeaderboardTitle(null);
+      setRevealed(null);
+      setNextQuestionAt(null);
+      setGameStartsAt(null);
+    }
 
-    ws.addEventListener("open", () => {
-      ws.send(JSON.stringify({ type: "join", pin, nickname }));
-    });
+    function connect() {
+      const ws = new WebSocket(getWsUrl());
+      wsRef.current = ws;
+
+      ws.addEventListener("open", () => {
+        const resumeToken = window.sessionStorage.getItem(tokenKey);
+        sendMessage(
+          ws,
+          resumeToken
+            ? { type: "resume", pin, resumeToken, v: PROTOCOL_VERSION }
+            : joinMessage,
+        );
+      });
 
-    ws.addEventListener("message", (event) => {
-      let msg: ServerMessage;
-      try {
-        msg = JSON.parse(String(event.data));
-      } catch {
-        return;
-      }
+      ws.addEventListener("message", (event) => {
+        const msg = readServerMessage(String(event.data));
+        if (!msg) return;
 
-      if (typeof msg.serverNow === "number" && Number.isFinite(msg.serverNow)) {
-        serverOffsetMsRef.current = msg.serverNow - Date.now();
-        setNowMs(Date.now() + serverOffsetMsRef.current);
-      }
+        if (typeof msg.serverNow === "number" && Number.isFinite(msg.serverNow)) {
+          serverOffsetMsRef.current = msg.serverNow - Date.now();
+          setNowMs(Date.now() + serverOffsetMsRef.current);
+        }
 
-      if (msg.type === "welcome") {
-        setStatus("connected");
-        setPlayers(msg.players);
-        setSelfNickname(msg.nickname);
-        setAnswerFeedback(null);
-        setScore(0);
-        prevScoresRef.current = new Map();
-        return;
-      }
+        if (msg.type === "welcome") {
+          if (msg.protocolVersion !== PROTOCOL_VERSION) {
+            fatal = true;
+            setStatus("error");
+            setError("The game server was updated. Reload the page to rejoin.");
+            ws.close();
+            return;
+          }
+          attempt = 0;
+          window.sessionStorage.setItem(tokenKey, msg.resumeToken);
+          setStatus("connected");
+          setError(null);
+          setPlayers(msg.players);
+          setSelfNickname(msg.nickname);
+          setSelfTeam(msg.team ?? null);
+          setSpectating(msg.spectator === true);
+          setScore(msg.score);
+          // The server replays the current phase right after the welcome.
+          resetRound();
+          if (!msg.resumed) prevScoresRef.current = new Map();
+          return;
+        }
 
-      if (msg.type === "room_update") {
-        setPlayers(msg.players);
-        return;
-      }
+        if (msg.type === "room_update") {
+          setPlayers(msg.players);
+          return;
+        }
 
-      if (msg.type === "starting") {
-        setQuestion(null);
-        setSelectedChoice(null);
-        setAnswerFeedback(null);
-        setLeaderboard(null);
-        setLeaderboardTitle(null);
-        setNextQuestionAt(null);
-        setGameStartsAt(msg.startsAt);
-        return;
-      }
+        if (msg.type === "starting") {
+          // Watchers play from the next game on.
+          setSpectating(false);
+          resetRound();
+          setGameStartsAt(msg.startsAt);
+          return;
+        }
 
-      if (msg.type === "game_started") {
-        setQuestion(null);
-        setSelectedChoice(null);
-        setAnswerFeedback(null);
-        setLeaderboard(null);
-        setLeaderboardTitle(null);
-        setNextQuestionAt(null);
-        setGameStartsAt(null);
-        setScore(0);
-        prevScoresRef.current = new Map();
-        return;
-      }
+        if (msg.type === "game_started") {
+          resetRound();
+          setScore(0);
+          prevScoresRef.current = new Map();
+          return;
+        }
 
-      if (msg.type === "question") {
-        setLeaderboard(null);
-        setLeaderboardTitle(null);
-        setNextQuestionAt(null);
-        setGameStartsAt(null);
-        setQuestion({
-          questionIndex: msg.questionIndex,
-          totalQuestions: msg.totalQuestions,
-          text: msg.text,
-          choices: msg.choices,
-          endsAt: msg.endsAt,
-        });
-        setSelectedChoice(null);
-        setAnswerFeedback(null);
-        return;
-      }
+        if (msg.type === "question") {
+          setLeaderboard(null);
+          setLeaderboardTitle(null);
+          setRevealed(null);
+          setNextQuestionAt(null);
+          setGameStartsAt(null);
+          setQuestion({
+            questionIndex: msg.questionIndex,
+            totalQuestions: msg.totalQuestions,
+            text: msg.text,
+            questionType: msg.questionType,
+            choices: msg.choices,
+            image: msg.image,
+            choiceImages: msg.choiceImages,
+            slider: msg.slider,
+            pointsMultiplier: msg.pointsMultiplier,
+            endsAt: msg.endsAt,
+            paused: msg.paused,
+            remainingMs: msg.remainingMs,
+          });
+          setSubmitted(null);
+          setDraftChoices([]);
+          setDraftText("");
+          setDraftValue(null);
+          setAnswerFeedback(null);
+          setAnswerCount(null);
+          return;
+        }
 
-      if (msg.type === "answer_result") {
-        setScore(msg.total);
-        setAnswerFeedback(
-          msg.correct ? `Correct (+${msg.delta})` : "Wrong (+0)",
-        );
-        return;
-      }
+        if (msg.type === "question_timer") {
+          setQuestion((prev) =>
+            prev && prev.questionIndex === msg.questionIndex
+              ? { ...prev, endsAt: msg.endsAt, paused: msg.paused, remainingMs: msg.remainingMs }
+              : prev,
+          );
+          return;
+        }
 
-      if (msg.type === "question_over") {
-        setQuestion(null);
-        setSelectedChoice(null);
-        setAnswerFeedback(null);
-        setLeaderboard(msg.leaderboard);
-        setLeaderboardTitle(`Ranking (Q${msg.questionIndex + 1})`);
-        setNextQuestionAt(msg.nextQuestionAt);
-        setGameStartsAt(null);
-        return;
-      }
+        if (msg.type === "answer_count") {
+          setAnswerCount({ answered: msg.answered, total: msg.total });
+          return;
+        }
 
-      if (msg.type === "game_over") {
-        setQuestion(null);
-        setLeaderboard(msg.leaderboard);
-        setLeaderboardTitle("Final ranking");
-        setNextQuestionAt(null);
-        setGameStartsAt(null);
-        return;
-      }
+        if (msg.type === "answer_received") {
+          setSubmitted({ choiceIndex: msg.choiceIndex, text: msg.text });
+          setAnswerFeedback({ label: "Answer received" });
+          return;
+        }
 
-      if (msg.type === "error") {
-        setStatus("error");
-        setError(msg.message);
-      }
-    });
+        if (msg.type === "answer_result") {
+          setScore(msg.total);
+          setSubmitted({
+            choiceIndex: msg.choiceIndex,
+            choiceIndices: msg.choiceIndices,
+            text: msg.text,
+            value: msg.value,
+          });
+          setAnswerFeedback({ label: resultLabel(msg), breakdown: msg.breakdown });
+          return;
+        }
+
+        if (msg.type === "question_over") {
+          setQuestion(null);
+          setSubmitted(null);
+          setDraftChoices([]);
+          setDraftText("");
+          setDraftValue(null);
+          setAnswerFeedback(null);
+          setRevealed({
+            questionIndex: msg.questionIndex,
+            text: msg.text,
+            questionType: msg.questionType,
+            choices: msg.choices,
+            image: msg.image,
+            choiceImages: msg.choiceImages,
+            reveal: msg.reveal,
+            you: msg.you ?? { answered: false },
+          });
+          setRankingAt(msg.rankingAt);
+          setLeaderboard(msg.leaderboard);
+          setTeamLeaderboard(msg.teamLeaderboard);
+          setLeaderboardTitle(`Ranking (Q${msg.questionIndex + 1})`);
+          setNextQuestionAt(msg.nextQuestionAt);
+          setGameStartsAt(null);
+          return;
+        }
+
+        if (msg.type === "game_over") {
+          setQuestion(null);
+          setRevealed(null);
+          setLeaderboard(msg.leaderboard);
+          setTeamLeaderboard(msg.teamLeaderboard);
+          setLeaderboardTitle("Final ranking");
+          setNextQuestionAt(null);
+          setGameStartsAt(null);
+          return;
+        }
+
+        if (msg.type === "host_status") {
+          setHostAway(!msg.connected);
+          return;
+        }
+
+        if (msg.type === "host_left") {
+          setHostAway(false);
+          resetRound();
+          return;
+        }
+
+        if (msg.type === "join_pending") {
+          attempt = 0;
+          setStatus("pending");
+          setError(null);
+          setSelfNickname(msg.nickname);
+          return;
+        }
 
-    ws.addEventListener("close", () => {
-      setStatus((prev) => {
-        if (prev === "error") return prev;
-        return "connecting";
+        if (msg.type === "kicked" || msg.type === "join_declined") {
+          fatal = true;
+          window.sessionStorage.removeItem(tokenKey);
+          setClosed(msg.type === "join_declined" ? "declined" : msg.banned ? "banned" : "kicked");
+          ws.close();
+          return;
+        }
+
+        if (msg.type === "error") {
+          if (msg.code === "RESUME_INVALID") {
+            // The grace period ran out; join again as a new player.
+            window.sessionStorage.removeItem(tokenKey);
+            sendMessage(ws, joinMessage);
+            return;
+          }
+          fatal = true;
+          if (msg.code === "BANNED" || JOIN_BLOCKS.has(msg.code)) {
+            window.sessionStorage.removeItem(tokenKey);
+            setClosed(msg.code === "BANNED" ? "banned" : (msg.code as JoinBlock));
+            ws.close();
+            return;
+          }
+          setStatus("error");
+          setError(msg.message);
+          ws.close();
+        }
       });
-    });
 
-    ws.addEventListener("error", () => {
-      setStatus("error");
-      setError("WebSocket connection failed");
-    });
+      ws.addEventListener("close", () => {
+        if (disposed || fatal) return;
+        setStatus("reconnecting");
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+        attempt += 1;
+        retryTimer = window.setTimeout(connect, delay);
+      });
+    }
+
+    connect();
 
     return () => {
-      ws.close();
+      disposed = true;
+      if (retryTimer !== null) window.clearTimeout(retryTimer);
+      wsRef.current?.close();
     };
-  }, [pin, nicknameParam, joinError]);
+  }, [pin, nicknameParam, teamParam, joinError]);
 
   const secondsToNext = useMemo(() => {
     if (!leaderboard) return null;
@@ -301,37 +507,73 @@ export default function LobbyClient({
     return Math.max(0, Math.ceil((gameStartsAt - nowMs) / 1000));
   }, [gameStartsAt, nowMs]);
 
+  const revealing = revealed !== null && rankingAt !== null && nowMs < rankingAt;
+
   useEffect(() => {
-    if (!leaderboard) return;
+    // Wait until the ranking is on screen so its scores still animate from last round.
+    if (!leaderboard || revealing) return;
     const next = new Map(prevScoresRef.current);
     for (const p of leaderboard) next.set(p.id, p.score);
     prevScoresRef.current = next;
-  }, [leaderboard]);
+  }, [leaderboard, revealing]);
 
   const secondsLeft = useMemo(() => {
     if (!question) return null;
+    if (question.paused) return Math.ceil(question.remainingMs / 1000);
     return Math.max(0, Math.ceil((question.endsAt - nowMs) / 1000));
   }, [question, nowMs]);
 
-  function sendAnswer(choiceIndex: number) {
+  // The server ignores answers while the host has paused the timer.
+  const answeringClosed = spectating || !question || question.paused || (secondsLeft ?? 0) <= 0;
+
+  const sliderValue = question?.slider
+    ? (submitted?.value ?? draftValue ?? sliderStart(question.slider))
+    : null;
+
+  function sendAnswer(answer: SubmittedAnswer) {
     if (!question) return;
-    if (selectedChoice !== null) return;
+    if (submitted !== null) return;
     if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
 
-    setSelectedChoice(choiceIndex);
-    wsRef.current.send(
-      JSON.stringify({
-        type: "answer",
-        pin,
-        questionIndex: question.questionIndex,
-        choiceIndex,
-      }),
+    setSubmitted(answer);
+    sendMessage(wsRef.current, { type: "answer", pin, questionIndex: question.questionIndex, ...answer });
+  }
+
+  function toggleDraftChoice(idx: number) {
+    setDraftChoices((prev) =>
+      prev.includes(idx) ? prev.filter((i) => i !== idx) : [...prev, idx].sort((a, b) => a - b),
     );
   }
 
+  function isChoicePicked(idx: number) {
+    if (submitted) {
+      return submitted.choiceIndex === idx || (submitted.choiceIndices ?? []).includes(idx);
+    }
+    return question?.questionType === "multi" && draftChoices.includes(idx);
+  }
+
   const effectiveStatus = joinError ? "error" : status;
   const effectiveError = joinError ?? error;
 
+  if (closed) {
+    return (
+      <div className="min-h-screen bg-background text-foreground">
+        <main className="mx-auto flex min-h-screen w-full max-w-xl flex-col justify-center px-6 py-10">
+          <div className="rounded-2xl border border-foreground/10 bg-background p-6 text-center">
+            <div className="text-sm text-foreground/70">Game PIN {pin}</div>
+            <div className="mt-2 text-2xl font-semibold tracking-tight">{CLOSED_SCREENS[closed].title}</div>
+            <div className="mt-3 text-sm text-foreground/70">{CLOSED_SCREENS[closed].detail}</div>
+            <div className="mt-6">
+              <Link className="underline" href="/">
+                Back to join
+              </Link>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       <main className="mx-auto flex min-h-screen w-full max-w-xl flex-col px-6 py-10">
@@ -346,13 +588,16 @@ export default function LobbyClient({
             <div>
               <div className="text-sm text-foreground/70">You are</div>
               <div className="text-lg font-semibold">{selfNickname || "—"}</div>
+              {selfTeam ? <div className="text-sm text-foreground/70">Team {selfTeam}</div> : null}
               <div className="mt-1 text-xs text-foreground/60">Score: {score}</div>
             </div>
             <div className="text-right">
               <div className="text-sm text-foreground/70">Status</div>
               <div className="text-sm font-medium">
                 {effectiveStatus === "connecting" && "Connecting…"}
+                {effectiveStatus === "pending" && "Waiting to be let in"}
                 {effectiveStatus === "connected" && "Connected"}
+                {effectiveStatus === "reconnecting" && "Reconnecting…"}
                 {effectiveStatus === "error" && "Error"}
               </div>
             </div>
@@ -369,7 +614,107 @@ export default function LobbyClient({
             </div>
           ) : null}
 
-          {leaderboard ? (
+          {spectating ? (
+            <div className="mt-4 rounded-xl border border-foreground/10 px-4 py-3 text-sm">
+              This game started before you joined, so you&apos;re watching. You&apos;ll play in the next game.
+            </div>
+          ) : null}
+
+          {effectiveStatus === "pending" ? (
+            <div className="mt-4 rounded-xl border border-foreground/10 px-4 py-3 text-sm">
+              The host lets each player in. Stay on this page until they admit you.
+            </div>
+          ) : null}
+
+          {hostAway ? (
+            <div className="mt-4 rounded-xl border border-foreground/10 px-4 py-3 text-sm">
+              The host is reconnecting…
+            </div>
+          ) : null}
+
+          {revealed && revealing ? (
+            <div className="mt-6 rounded-2xl border border-foreground/10 bg-background p-4">
+              <div className="text-sm text-foreground/70">
+                Question {revealed.questionIndex + 1}
+              </div>
+              <div className="mt-2 text-lg font-semibold">{outcomeLabel(revealed)}</div>
+              {revealed.you.answered && describeBreakdown(revealed.you.breakdown) ? (
+                <div className="mt-1 text-xs text-foreground/60">
+                  {describeBreakdown(revealed.you.breakdown)}
+                </div>
+              ) : null}
+              <div className="mt-3 text-sm">{revealed.text}</div>
+              {revealed.image ? (
+                <UploadedImage name={revealed.image} className="mx-auto mt-3 max-h-48" />
+              ) : null}
+
+              {revealed.choices.length ? (
+                <div className="mt-3 grid grid-cols-1 gap-2">
+                  {revealed.choices.map((c, idx) => {
+                    const isCorrect = revealed.reveal?.correctIndices?.includes(idx) ?? false;
+                    const picked =
+                      revealed.you.answered &&
+                      (revealed.you.choiceIndex === idx ||
+                        (revealed.you.choiceIndices ?? []).includes(idx));
+                    return (
+                      <div
+                        key={idx}
+                        className={`flex items-center justify-between gap-2 rounded-xl border px-4 py-3 text-sm ${
+                          isCorrect ? "border-foreground/40 font-semibold" : "border-foreground/10"
+                        } ${picked ? "bg-foreground/5" : ""}`}
+                      >
+                        <div>
+                          <span className="mr-2 font-mono text-foreground/70">
+                            {String.fromCharCode(65 + idx)}
+                          </span>
+                          {c}
+                          {isCorrect ? " ✓" : ""}
+                          {revealed.choiceImages?.[idx] ? (
+                            <UploadedImage name={revealed.choiceImages[idx]} className="mt-2 max-h-24" />
+                          ) : null}
+                        </div>
+                        {picked ? (
+                          <div className="shrink-0 text-xs font-normal text-foreground/60">
+                            Your answer
+                          </div>
+                        ) : null}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : null}
+
+              {revealed.reveal?.acceptedAnswers ? (
+                <div className="mt-3 text-sm">
+                  <span className="text-foreground/70">Answer: </span>
+                  <span className="font-semibold">
+                    {revealed.reveal.acceptedAnswers.join(" / ")}
+                  </span>
+                </div>
+              ) : null}
+
+              {typeof revealed.reveal?.correctValue === "number" ? (
+                <div className="mt-3 text-sm">
+                  <span className="text-foreground/70">Answer: </span>
+                  <span className="font-semibold">
+                    {revealed.reveal.correctValue}
+                    {revealed.reveal.unit}
+                  </span>
+                </div>
+              ) : null}
+
+              {revealed.you.answered && revealed.you.text !== undefined ? (
+                <div className="mt-1 text-sm text-foreground/70">You typed: {revealed.you.text}</div>
+              ) : null}
+
+              {revealed.you.answered && revealed.you.value !== undefined ? (
+                <div className="mt-1 text-sm text-foreground/70">
+                  You picked: {revealed.you.value}
+                  {revealed.reveal?.unit}
+                </div>
+              ) : null}
+            </div>
+          ) : leaderboard ? (
             <div className="mt-6 rounded-2xl border border-foreground/10 bg-background p-4">
               <div className="flex items-center justify-between gap-4">
                 <div className="text-sm font-semibold">
@@ -380,6 +725,27 @@ export default function LobbyClient({
                 </div>
               </div>
 
+              {teamLeaderboard ? (
+                <div className="mt-3 grid grid-cols-1 gap-2">
+                  {teamLeaderboard.map((t, idx) => (
+                    <div
+                      key={t.team}
+                      className={`flex items-center justify-between rounded-xl border px-3 py-2 text-sm ${
+                        t.team === selfTeam ? "border-foreground/40" : "border-foreground/10"
+                      }`}
+                    >
+                      <div className="font-semibold">
+                        #{idx + 1} {t.team}
+                        <span className="ml-2 text-xs font-normal text-foreground/60">
+                          {t.players} {t.players === 1 ? "player" : "players"}
+                        </span>
+                      </div>
+                      <div className="font-mono">{t.score}</div>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
               <div className="mt-3 fireworks">
                 <div className="firework" />
                 <div className="firework" />
@@ -424,29 +790,148 @@ export default function LobbyClient({
                 <div className="text-sm text-foreground/70">
                   Question {question.questionIndex + 1} / {question.totalQuestions}
                 </div>
-                <div className="text-sm font-semibold">{secondsLeft ?? "—"}s</div>
+                <div className="text-right">
+                  <div className="text-sm font-semibold">
+                    {question.paused ? "Paused · " : ""}
+                    {secondsLeft ?? "—"}s
+                  </div>
+                  {answerCount ? (
+                    <div className="text-xs text-foreground/60">
+                      {answerCount.answered} of {answerCount.total} answered
+                    </div>
+                  ) : null}
+                </div>
               </div>
               <div className="mt-2 text-base font-semibold">{question.text}</div>
+              {question.image ? (
+                <UploadedImage name={question.image} className="mx-auto mt-3 max-h-72" />
+              ) : null}
+
+              {question.questionType === "multi" ? (
+                <div className="mt-1 text-xs text-foreground/60">Select all that apply</div>
+              ) : question.questionType === "poll" || question.questionType === "word_cloud" ? (
+                <div className="mt-1 text-xs text-foreground/60">Just for fun — no points</div>
+              ) : null}
+              {question.pointsMultiplier !== 1 &&
+              question.questionType !== "poll" &&
+              question.questionType !== "word_cloud" ? (
+                <div className="mt-1 text-xs font-semibold">
+                  {question.pointsMultiplier === 0 ? "No points" : `${question.pointsMultiplier}× points`}
+                </div>
+              ) : null}
+
+              {question.questionType === "type_answer" || question.questionType === "word_cloud" ? (
+                <form
+                  className="mt-4 flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    const text = draftText.trim();
+                    if (text) sendAnswer({ text });
+                  }}
+                >
+                  <input
+                    value={submitted?.text ?? draftText}
+                    onChange={(e) => setDraftText(e.target.value)}
+                    disabled={submitted !== null || answeringClosed}
+                    maxLength={question.questionType === "word_cloud" ? 40 : 80}
+                    autoComplete="off"
+                    placeholder="Type your answer"
+                    className="w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30 disabled:opacity-50"
+                  />
+                  <button
+                    type="submit"
+                    disabled={submitted !== null || !draftText.trim() || answeringClosed}
+                    className="h-12 shrink-0 rounded-xl bg-foreground px-4 text-sm text-background disabled:opacity-50"
+                  >
+                    Submit
+                  </button>
+                </form>
+              ) : null}
+
+              {question.questionType === "slider" && question.slider ? (
+                <div className="mt-4">
+                  <div className="text-center text-3xl font-semibold">
+                    {sliderValue}
+                    {question.slider.unit}
+                  </div>
+                  <input
+                    type="range"
+                    min={question.slider.min}
+                    max={question.slider.max}
+                    step={question.slider.step}
+                    value={sliderValue ?? question.slider.min}
+                    onChange={(e) => setDraftValue(Number(e.target.value))}
+                    disabled={submitted !== null || answeringClosed}
+                    className="mt-3 w-full disabled:opacity-50"
+                  />
+                  <div className="flex justify-between text-xs text-foreground/60">
+                    <span>
+                      {question.slider.min}
+                      {question.slider.unit}
+                    </span>
+                    <span>
+                      {question.slider.max}
+                      {question.slider.unit}
+                    </span>
+                  </div>
+                  {submitted === null ? (
+                    <button
+                      type="button"
+                      onClick={() => sendAnswer({ value: sliderValue ?? question.slider?.min })}
+                      disabled={answeringClosed}
+                      className="mt-3 flex h-11 w-full items-center justify-center rounded-xl bg-foreground px-4 text-sm text-background disabled:opacity-50"
+                    >
+                      Submit
+                    </button>
+                  ) : null}
+                </div>
+              ) : null}
 
               <div className="mt-4 grid grid-cols-1 gap-2">
                 {question.choices.map((c, idx) => (
                   <button
                     key={idx}
                     type="button"
-                    onClick={() => sendAnswer(idx)}
-                    disabled={selectedChoice !== null || (secondsLeft ?? 0) <= 0}
+                    onClick={() =>
+                      question.questionType === "multi"
+                        ? toggleDraftChoice(idx)
+                        : sendAnswer({ choiceIndex: idx })
+                    }
+                    disabled={submitted !== null || answeringClosed}
                     className={`rounded-xl border border-foreground/10 px-4 py-3 text-left text-sm transition-colors disabled:opacity-50 ${
-                      selectedChoice === idx ? "bg-foreground/5" : "hover:bg-foreground/5"
+                      isChoicePicked(idx) ? "bg-foreground/5" : "hover:bg-foreground/5"
                     }`}
                   >
+                    <span className="mr-2 font-mono text-foreground/70">
+                      {String.fromCharCode(65 + idx)}
+                    </span>
                     {c}
+                    {question.choiceImages?.[idx] ? (
+                      <UploadedImage name={question.choiceImages[idx]} className="mt-2 max-h-32" />
+                    ) : null}
                   </button>
                 ))}
               </div>
 
+              {question.questionType === "multi" && submitted === null ? (
+                <button
+                  type="button"
+                  onClick={() => sendAnswer({ choiceIndices: draftChoices })}
+                  disabled={draftChoices.length === 0 || answeringClosed}
+                  className="mt-3 flex h-11 w-full items-center justify-center rounded-xl bg-foreground px-4 text-sm text-background disabled:opacity-50"
+                >
+                  Submit
+                </button>
+              ) : null}
+
               {answerFeedback ? (
                 <div className="mt-4 rounded-xl border border-foreground/10 px-4 py-3 text-sm">
-                  {answerFeedback}
+                  {answerFeedback.label}
+                  {describeBreakdown(answerFeedback.breakdown) ? (
+                    <div className="mt-1 text-xs text-foreground/60">
+                      {describeBreakdown(answerFeedback.breakdown)}
+                    </div>
+                  ) : null}
                 </div>
               ) : null}
             </div>
@@ -474,6 +959,10 @@ export default function LobbyClient({
                     className="rounded-xl border border-foreground/10 px-3 py-2 text-sm"
                   >
                     {p.nickname}
+                    {p.team ? <span className="ml-2 text-xs text-foreground/60">{p.team}</span> : null}
+                    {p.connected === false ? (
+                      <span className="ml-2 text-xs text-foreground/60">(offline)</span>
+                    ) : null}
                   </li>
                 ))}
               </ul>
@@ -5,10 +5,10 @@ export default async function LobbyPage({
   searchParams,
 }: {
   params: Promise<{ pin: string }>;
-  searchParams: Promise<{ name?: string }>;
+  searchParams: Promise<{ name?: string; team?: string }>;
 }) {
   const { pin } = await params;
-  const { name } = await searchParams;
+  const { name, team } = await searchParams;
 
-  return <LobbyClient pin={pin} nicknameParam={name ?? ""} />;
+  return <LobbyClient pin={pin} nicknameParam={name ?? ""} teamParam={team ?? ""} />;
 }
@@ -1,52 +1,92 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { withBasePath } from "@/lib/public-base-path";
+import { JOIN_BLOCK_MESSAGES, type JoinBlock } from "@/lib/room-settings";
+
+type RoomListItem = { pin: string; title: string; teams?: string[] };
+
+type RoomLookupError = "NOT_FOUND" | "RATE_LIMITED" | "FAILED";
+
+const LOOKUP_ERRORS: Record<RoomLookupError, string> = {
+  NOT_FOUND: "Invalid game PIN",
+  RATE_LIMITED: "Too many wrong PINs. Wait a few minutes, then try again.",
+  FAILED: "Couldn't check the game PIN. Try again.",
+};
+
+type RoomLookup =
+  | { ok: true; room: RoomListItem & { joinBlock?: JoinBlock } }
+  | { ok: false; error: RoomLookupError };
+
+/** Looks up one room by PIN; the server limits how many unknown PINs a player may try. */
+async function lookupRoom(pin: string): Promise<RoomLookup> {
+  try {
+    const res = await fetch(withBasePath(`/api/rooms?pin=${encodeURIComponent(pin)}`), {
+      cache: "no-store",
+    });
+    if (res.status === 404) return { ok: false, error: "NOT_FOUND" };
+    if (res.status === 429) return { ok: false, error: "RATE_LIMITED" };
+    const data = (await res.json().catch(() => null)) as {
+      room?: RoomListItem & { joinBlock?: JoinBlock };
+    } | null;
+    return res.ok && data?.room ? { ok: true, room: data.room } : { ok: false, error: "FAILED" };
+  } catch {
+    return { ok: false, error: "FAILED" };
+  }
+}
 
-type RoomListItem = { pin: string; title: string };
+function normalizePin(value: string) {
+  return value.replace(/\s+/g, "").slice(0, 12);
+}
 
 export default function Home() {
   const router = useRouter();
   const [pin, setPin] = useState("");
   const [nickname, setNickname] = useState("");
+  // Empty means "put me on whichever team is smallest".
+  const [team, setTeam] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
 
-  const [rooms, setRooms] = useState<RoomListItem[] | null>(null);
-  const [roomsError, setRoomsError] = useState<string | null>(null);
+  // Rooms their hosts listed for anyone to try; every other room needs its PIN.
+  const [listedRooms, setListedRooms] = useState<RoomListItem[]>([]);
+  // Set by the first Join on a team game, so the player can pick a team before joining.
+  const [teams, setTeams] = useState<string[] | null>(null);
 
   useEffect(() => {
     let cancelled = false;
 
-    async function loadRooms() {
+    async function loadListedRooms() {
       try {
-        setRoomsError(null);
         const res = await fetch(withBasePath("/api/rooms"), { cache: "no-store" });
-        if (!res.ok) throw new Error("FAILED");
+        if (!res.ok) return;
         const data = (await res.json()) as { rooms?: RoomListItem[] };
-        const nextRooms = Array.isArray(data.rooms) ? data.rooms : [];
-        if (!cancelled) setRooms(nextRooms);
+        if (!cancelled && Array.isArray(data.rooms)) setListedRooms(data.rooms);
       } catch {
-        if (!cancelled) setRoomsError("Failed to load rooms");
+        // The list is only a convenience; joining by PIN works without it.
       }
     }
 
-    void loadRooms();
+    void loadListedRooms();
     return () => {
       cancelled = true;
     };
   }, []);
 
-  const knownPins = useMemo(
-    () => new Set((rooms ?? []).map((r) => r.pin)),
-    [rooms],
-  );
+  const normalizedPin = normalizePin(pin);
 
-  function onSubmit(event: React.FormEvent) {
+  function onPinChange(value: string) {
+    setPin(value);
+    // Another PIN may be another room, with other teams or none.
+    setTeams(null);
+    setTeam("");
+  }
+
+  async function onSubmit(event: React.FormEvent) {
     event.preventDefault();
     setError(null);
 
-    const normalizedPin = pin.replace(/\s+/g, "").slice(0, 12);
     const normalizedNickname = nickname.trim().slice(0, 24);
 
     if (!normalizedPin) {
@@ -54,28 +94,32 @@ export default function Home() {
       return;
     }
 
-    if (roomsError) {
-      setError("Failed to load rooms");
+    if (!normalizedNickname) {
+      setError("Enter nickname");
       return;
     }
 
-    if (!rooms) {
-      setError("Loading rooms…");
+    setChecking(true);
+    const result = await lookupRoom(normalizedPin);
+    setChecking(false);
+    if (!result.ok) {
+      setError(LOOKUP_ERRORS[result.error]);
       return;
     }
-
-    if (!knownPins.has(normalizedPin)) {
-      setError("Invalid game PIN");
+    if (result.room.joinBlock) {
+      setError(JOIN_BLOCK_MESSAGES[result.room.joinBlock]);
       return;
     }
 
-    if (!normalizedNickname) {
-      setError("Enter nickname");
+    if (result.room.teams && !teams) {
+      setTeams(result.room.teams);
+      setError("Pick a team, or press Join to be put on the smallest one.");
       return;
     }
 
+    const teamQuery = result.room.teams && team ? `&team=${encodeURIComponent(team)}` : "";
     router.push(
-      `/lobby/${encodeURIComponent(normalizedPin)}?name=${encodeURIComponent(normalizedNickname)}`,
+      `/lobby/${encodeURIComponent(normalizedPin)}?name=${encodeURIComponent(normalizedNickname)}${teamQuery}`,
     );
   }
 
@@ -97,7 +141,7 @@ export default function Home() {
             <span className="text-sm text-foreground/70">Game PIN</span>
             <input
               value={pin}
-              onChange={(e) => setPin(e.target.value)}
+              onChange={(e) => onPinChange(e.target.value)}
               inputMode="numeric"
               autoComplete="one-time-code"
               placeholder="123456"
@@ -116,6 +160,24 @@ export default function Home() {
             />
           </label>
 
+          {teams ? (
+            <label className="mt-4 block">
+              <span className="text-sm text-foreground/70">Team</span>
+              <select
+                value={team}
+                onChange={(e) => setTeam(e.target.value)}
+                className="mt-2 w-full rounded-xl border border-foreground/10 bg-background px-4 py-3 text-base outline-none focus:border-foreground/30"
+              >
+                <option value="">Put me on a team</option>
+                {teams.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
           {error ? (
             <div className="mt-4 rounded-xl border border-foreground/10 px-4 py-3 text-sm">
               {error}
@@ -125,13 +187,16 @@ export default function Home() {
           <button
             type="submit"
             className="mt-5 flex h-12 w-full items-center justify-center rounded-xl bg-foreground px-5 text-background"
+            disabled={checking}
           >
-            Join
+            {checking ? "Checking…" : "Join"}
           </button>
 
-          <div className="mt-4 text-xs text-foreground/60">
-            Demo pins: {rooms ? rooms.map((r) => r.pin).join(", ") : "Loading…"}
-          </div>
+          {listedRooms.length ? (
+            <div className="mt-4 text-xs text-foreground/60">
+              Demo pins: {listedRooms.map((r) => r.pin).join(", ")}
+            </div>
+          ) : null}
         </form>
       </main>
     </div>
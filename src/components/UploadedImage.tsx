@@ -0,0 +1,25 @@
+import Image from "next/image";
+import { uploadUrl } from "@/lib/uploads";
+
+type Props = {
+  name: string;
+  alt?: string;
+  className?: string;
+};
+
+/**
+ * An uploaded question or choice picture, scaled down to fit its container. Served as-is
+ * from /api/uploads, so the image optimizer is skipped.
+ */
+export default function UploadedImage({ name, alt = "", className }: Props) {
+  return (
+    <Image
+      src={uploadUrl(name)}
+      alt={alt}
+      width={1200}
+      height={900}
+      unoptimized
+      className={`h-auto w-auto max-w-full rounded-xl object-contain ${className ?? ""}`}
+    />
+  );
+}
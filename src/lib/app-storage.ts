@@ -0,0 +1,10 @@
+import path from "node:path";
+import { openStorage, type DataStore } from "@/lib/storage/index.mjs";
+
+let storage: Promise<DataStore> | undefined;
+
+/** The storage backend picked by `STORAGE_BACKEND`, opened once per server process. */
+export function getStorage(): Promise<DataStore> {
+  storage ??= openStorage({ dataDir: path.join(process.cwd(), "src", "data") });
+  return storage;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { escapeFormula, formatCsv, parseCsv, UTF8_BOM } from "@/lib/csv";
+
+describe("formatCsv / parseCsv", () => {
+  it("round-trips commas, quotes, line breaks and Thai", () => {
+    const rows = [
+      ["a,b", 'say "hi"', "line\nbreak"],
+      ["ทดสอบ", "", "x"],
+    ];
+    expect(parseCsv(UTF8_BOM + formatCsv(rows))).toEqual(rows);
+  });
+
+  it("writes numbers as they are", () => {
+    expect(formatCsv([[1, -200, "x"]])).toBe("1,-200,x\r\n");
+  });
+});
+
+describe("escapeFormula", () => {
+  it("marks text that would start a formula as plain text", () => {
+    for (const text of ["=HYPERLINK(\"http://x\")", "+1", "-2", "@SUM(A1)", "\tcmd", "\rcmd"]) {
+      expect(escapeFormula(text)).toBe(`'${text}`);
+    }
+  });
+
+  it("leaves other text and numbers alone", () => {
+    expect(escapeFormula("Ann")).toBe("Ann");
+    expect(escapeFormula("a=b")).toBe("a=b");
+    expect(escapeFormula(-200)).toBe(-200);
+  });
+});
@@ -0,0 +1,65 @@
+export type CsvCell = string | number;
+
+// Excel only detects UTF-8 (and so shows Thai correctly) when the file starts with a BOM.
+export const UTF8_BOM = "\uFEFF";
+
+// Spreadsheet apps run a cell starting with one of these as a formula, even from a CSV file.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Keeps text such as a nickname of `=HYPERLINK(...)` from running as a formula when the file
+ * is opened: the leading `'` is how spreadsheets mark a cell as plain text. Numbers are kept.
+ */
+export function escapeFormula(value: CsvCell): CsvCell {
+  return typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+function csvCell(value: CsvCell) {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/** RFC 4180 parsing: quoted cells may hold commas, quotes and line breaks. Drops a leading BOM. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]!;
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,34 @@
+import { withBasePath } from "@/lib/public-base-path";
+
+const HOST_SESSION_ERRORS: Record<string, string> = {
+  QUIZ_NOT_FOUND: "Quiz not found",
+  HOST_KEY_INVALID: "Invalid quiz key",
+};
+
+/** Starts a new session of a library quiz and returns the host page to open. */
+export async function startHostSession(
+  quizId: string,
+  hostKey: string,
+): Promise<{ ok: true; href: string } | { ok: false; error: string }> {
+  try {
+    const res = await fetch(withBasePath("/api/rooms"), {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ quizId, hostKey }),
+    });
+    const json = (await res.json().catch(() => null)) as
+      | { ok: true; pin: string; hostKey: string }
+      | { ok?: false; error?: string }
+      | null;
+    if (!res.ok || !json || !("pin" in json)) {
+      const code = json && "error" in json ? json.error : undefined;
+      return { ok: false, error: (code && HOST_SESSION_ERRORS[code]) || "Could not start a session" };
+    }
+    return {
+      ok: true,
+      href: `/host/${encodeURIComponent(json.pin)}?hostKey=${encodeURIComponent(json.hostKey)}`,
+    };
+  } catch {
+    return { ok: false, error: "Could not start a session" };
+  }
+}
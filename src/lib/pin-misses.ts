@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { clientAddress, createRateLimiter, PIN_MISS_LIMIT } from "@/lib/rate-limit/index.mjs";
+
+// Unknown PINs and wrong host keys tried per address, counted together across every API route
+// that takes a PIN. Only misses count, so a class sharing one address can all join while
+// guessing PINs quickly runs out.
+const pinMisses = createRateLimiter(PIN_MISS_LIMIT);
+
+/**
+ * Counts a request for a PIN that doesn't exist (or a host key that doesn't match) and answers
+ * it with `miss`, or with 429 once the caller's address has tried too many. Route handlers
+ * can't see the socket, so without a trusted proxy all callers share one address.
+ */
+export function pinMissResponse(request: Request, miss: { error: string; status: number }) {
+  const address = clientAddress({ forwardedFor: request.headers.get("x-forwarded-for") });
+  const retryAfter = pinMisses.retryAfter(address);
+  if (retryAfter) {
+    return NextResponse.json(
+      { ok: false, error: "RATE_LIMITED" },
+      { status: 429, headers: { "retry-after": String(retryAfter) } },
+    );
+  }
+  pinMisses.hit(address);
+  return NextResponse.json({ ok: false, error: miss.error }, { status: miss.status });
+}
+
+/** The one answer host routes give for an unknown PIN and a wrong host key alike. */
+export const HOST_KEY_MISS = { error: "HOST_KEY_INVALID", status: 403 };
@@ -0,0 +1,218 @@
+import type { QuestionType } from "@/lib/quiz";
+
+export type { QuestionType };
+
+export declare const PROTOCOL_VERSION: 4;
+
+export type ErrorCode =
+  /** The message wasn't JSON. */
+  | "INVALID_JSON"
+  /** A field is missing or has the wrong type; `message` says which. */
+  | "INVALID_MESSAGE"
+  | "UNKNOWN_MESSAGE_TYPE"
+  /** The page and the server speak different protocol versions; reloading the page fixes it. */
+  | "PROTOCOL_VERSION"
+  | "INVALID_PIN"
+  /** Too many unknown PINs from this address; known PINs still work. */
+  | "RATE_LIMITED"
+  /** A host message for a room this socket hasn't joined. */
+  | "NOT_IN_ROOM"
+  | "NOT_HOST"
+  | "HOST_KEY_INVALID"
+  | "HOST_REPLACED"
+  | "RESUME_INVALID"
+  | "SESSION_REPLACED"
+  | "NO_QUIZ"
+  /** The host banned this device from the game. */
+  | "BANNED"
+  /** The nickname is reserved or has a blocked word in it; `message` says which. */
+  | "NICKNAME_REJECTED"
+  /** The host locked the lobby. */
+  | "ROOM_LOCKED"
+  /** The room has as many players as its player limit allows. */
+  | "ROOM_FULL"
+  /** The game is past its first question and the room doesn't take late joiners. */
+  | "GAME_IN_PROGRESS";
+
+export type GameState = "waiting" | "running" | "ended";
+
+/** `spectator` marks a late joiner who watches the running game without playing. */
+export type Player = { id: string; nickname: string; connected?: boolean; team?: string; spectator?: boolean };
+
+export type LeaderboardEntry = { id: string; nickname: string; team?: string; score: number };
+
+/** A team's score: the average or total of its players, depending on the room. */
+export type TeamStanding = { team: string; score: number; players: number };
+
+export type SliderSettings = { min: number; max: number; step: number; unit: string };
+
+/** The parts an answer's points were made up from, already multiplied by `multiplier`. */
+export type ScoreBreakdown = {
+  base: number;
+  speed: number;
+  streak: number;
+  penalty: number;
+  multiplier: number;
+};
+
+export type AnswerResult = { correct: boolean; credit: number; delta: number; breakdown?: ScoreBreakdown };
+
+/** The answer fields of an `answer` message; which one is set depends on the question type. */
+export type SubmittedAnswer = {
+  choiceIndex?: number;
+  choiceIndices?: number[];
+  text?: string;
+  value?: number;
+};
+
+/** The correct answer shown at question end; null for polls and word clouds. */
+export type Reveal = {
+  correctIndices?: number[];
+  acceptedAnswers?: string[];
+  correctValue?: number;
+  unit?: string;
+} | null;
+
+/** How the room answered: picks per choice (`counts`) or typed answers grouped (`words`). */
+export type QuestionResults = {
+  total: number;
+  counts?: number[];
+  words?: Array<{ text: string; count: number }>;
+};
+
+/** `correctValue` is missing only when the saved question has none. */
+export type SliderSpread = SliderSettings & { correctValue?: number; values: number[] };
+
+/** How a player did on the question that just ended. */
+export type QuestionOutcome =
+  | { answered: false }
+  | ({ answered: true } & AnswerResult & SubmittedAnswer);
+
+type Standings = {
+  leaderboard: LeaderboardEntry[];
+  top3: LeaderboardEntry[];
+  teamLeaderboard: TeamStanding[] | null;
+};
+
+type QuestionTimer = { endsAt: number; paused: boolean; remainingMs: number };
+
+/** Sent by the lobby page (players) and the host page. */
+export type ClientMessage =
+  /** `deviceId` stays the same across tabs of one browser, so a ban keeps the device out. */
+  | { type: "join"; pin: string; nickname?: string; team?: string; deviceId?: string; v?: number }
+  | { type: "resume"; pin: string; resumeToken: string; v?: number }
+  | { type: "host_join"; pin: string; hostKey: string; v?: number }
+  | { type: "host_start"; pin: string }
+  | { type: "host_pause"; pin: string }
+  | { type: "host_resume"; pin: string }
+  | { type: "host_extend"; pin: string; seconds?: number }
+  | { type: "host_skip"; pin: string }
+  | { type: "host_next"; pin: string }
+  | { type: "host_end"; pin: string }
+  /** Removes a player and their score; they may join again. */
+  | { type: "host_kick"; pin: string; playerId: string }
+  /** Like `host_kick`, and the player's device can't join this game again. */
+  | { type: "host_ban"; pin: string; playerId: string }
+  /** Lets a player waiting for approval into the room. */
+  | { type: "host_admit"; pin: string; playerId: string }
+  | { type: "host_decline"; pin: string; playerId: string }
+  /** Stops (or, with `locked: false`, resumes) letting new players join. */
+  | { type: "host_lock"; pin: string; locked: boolean }
+  | ({ type: "answer"; pin: string; questionIndex: number } & SubmittedAnswer);
+
+/**
+ * Sent by the WS server. Players and the host get mostly the same messages; `welcome`,
+ * `join_*`, `kicked` and `you` are for players, `host_welcome`, `pending_players` and
+ * `live_results` for the host.
+ */
+export type ServerMessage = { serverNow?: number } & (
+  | {
+      type: "welcome";
+      protocolVersion?: number;
+      id: string;
+      pin: string;
+      nickname: string;
+      team?: string;
+      resumeToken: string;
+      resumed: boolean;
+      /** Joined mid-game in a room where late joiners only watch; plays from the next game. */
+      spectator?: boolean;
+      score: number;
+      players: Player[];
+    }
+  | {
+      type: "host_welcome";
+      protocolVersion?: number;
+      id: string;
+      pin: string;
+      players: Player[];
+      state: GameState;
+      questionIndex: number;
+      locked?: boolean;
+    }
+  | { type: "room_update"; pin: string; players: Player[] }
+  | { type: "starting"; pin: string; startsAt: number }
+  | { type: "game_started"; pin: string }
+  | ({
+      type: "question";
+      pin: string;
+      questionIndex: number;
+      totalQuestions: number;
+      text: string;
+      questionType: QuestionType;
+      choices: string[];
+      image?: string;
+      choiceImages?: string[];
+      slider?: SliderSettings;
+      pointsMultiplier: number;
+    } & QuestionTimer)
+  | ({ type: "question_timer"; pin: string; questionIndex: number } & QuestionTimer)
+  | { type: "answer_count"; pin: string; questionIndex: number; answered: number; total: number }
+  | ({ type: "answer_received"; pin: string; questionIndex: number } & SubmittedAnswer)
+  | ({ type: "answer_result"; pin: string; questionIndex: number; total: number } & AnswerResult &
+      SubmittedAnswer)
+  | { type: "live_results"; pin: string; questionIndex: number; results: QuestionResults }
+  | ({
+      type: "question_over";
+      pin: string;
+      questionIndex: number;
+      text: string;
+      questionType: QuestionType;
+      choices: string[];
+      image?: string;
+      choiceImages?: string[];
+      reveal: Reveal;
+      results: QuestionResults;
+      spread?: SliderSpread;
+      you?: QuestionOutcome;
+      rankingAt: number;
+      nextQuestionAt: number;
+    } & Standings)
+  | ({ type: "game_over"; pin: string } & Standings)
+  | { type: "host_status"; pin: string; connected: boolean }
+  | { type: "host_left"; pin: string }
+  /** Sent to a player the host removed, right before their connection is closed. */
+  | { type: "kicked"; pin: string; banned: boolean }
+  | { type: "lobby_locked"; pin: string; locked: boolean }
+  /** The room requires approval; a `welcome` follows once the host admits the player. */
+  | { type: "join_pending"; pin: string; nickname: string }
+  | { type: "join_declined"; pin: string }
+  /** Sent to the host whenever the queue of players waiting for approval changes. */
+  | { type: "pending_players"; pin: string; players: Player[] }
+  | { type: "error"; code: ErrorCode; message: string }
+);
+
+export type ServerMessageOf<T extends ServerMessage["type"]> = Extract<ServerMessage, { type: T }>;
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; code: "INVALID_JSON" | "INVALID_MESSAGE" | "UNKNOWN_MESSAGE_TYPE"; error: string };
+
+/** Parses and checks a message from a page; used by the WS server. */
+export declare function parseClientMessage(raw: string): ParseResult<ClientMessage>;
+
+/** Parses and checks a message from the WS server; used by the pages. */
+export declare function parseServerMessage(raw: string): ParseResult<ServerMessage>;
+
+/** `parseServerMessage` for the pages: logs a message it can't use and returns null. */
+export declare function readServerMessage(raw: string): ServerMessage | null;
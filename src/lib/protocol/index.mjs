@@ -0,0 +1,237 @@
+// The WebSocket protocol between the lobby and host pages and server/ws-server.mjs.
+// Message types are declared in index.d.mts; the schemas below check messages at runtime,
+// on the server for what clients send and in the browser for what the server sends.
+
+/** Bumped when a message changes in a way older pages or servers can't handle. */
+export const PROTOCOL_VERSION = 4;
+
+const QUESTION_TYPES = ["single", "true_false", "multi", "type_answer", "slider", "poll", "word_cloud"];
+
+// Each schema returns null when the value fits, otherwise what is wrong with it, starting
+// with `path` (e.g. "answer.choiceIndex must be an integer of at least 0").
+
+const string =
+  (max = 200) =>
+  (value, path) =>
+    typeof value === "string" && value.length <= max ? null : `${path} must be a string of at most ${max} characters`;
+
+const integer =
+  (min = 0) =>
+  (value, path) =>
+    Number.isInteger(value) && value >= min ? null : `${path} must be an integer of at least ${min}`;
+
+const number = () => (value, path) =>
+  typeof value === "number" && Number.isFinite(value) ? null : `${path} must be a finite number`;
+
+const boolean = () => (value, path) => (typeof value === "boolean" ? null : `${path} must be true or false`);
+
+const oneOf = (options) => (value, path) =>
+  options.includes(value) ? null : `${path} must be one of ${options.map((o) => JSON.stringify(o)).join(", ")}`;
+
+const optional = (schema) => (value, path) => (value === undefined ? null : schema(value, path));
+
+const nullable = (schema) => (value, path) => (value === null ? null : schema(value, path));
+
+// Lists from clients are capped by the caller; lists the server sends (players, words,
+// leaderboards) grow with the room, which may have no player limit, so they are not.
+const array =
+  (item, max = Infinity) =>
+  (value, path) => {
+    if (!Array.isArray(value)) return `${path} must be a list`;
+    if (value.length > max) return `${path} must be a list of at most ${max} items`;
+    for (let i = 0; i < value.length; i++) {
+      const problem = item(value[i], `${path}[${i}]`);
+      if (problem) return problem;
+    }
+    return null;
+  };
+
+/** Checks the listed fields; fields it doesn't list are let through untouched. */
+const object = (fields) => (value, path) => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return `${path} must be an object`;
+  for (const [key, schema] of Object.entries(fields)) {
+    const problem = schema(value[key], `${path}.${key}`);
+    if (problem) return problem;
+  }
+  return null;
+};
+
+const pin = string(32);
+const questionIndex = integer(0);
+
+const answerFields = {
+  choiceIndex: optional(integer(0)),
+  choiceIndices: optional(array(integer(0), 20)),
+  text: optional(string(500)),
+  value: optional(number()),
+};
+
+const CLIENT_MESSAGES = {
+  join: object({
+    pin,
+    nickname: optional(string(100)),
+    team: optional(string(100)),
+    deviceId: optional(string(64)),
+    v: optional(integer(1)),
+  }),
+  resume: object({ pin, resumeToken: string(64), v: optional(integer(1)) }),
+  host_join: object({ pin, hostKey: string(64), v: optional(integer(1)) }),
+  host_start: object({ pin }),
+  host_pause: object({ pin }),
+  host_resume: object({ pin }),
+  host_extend: object({ pin, seconds: optional(number()) }),
+  host_skip: object({ pin }),
+  host_next: object({ pin }),
+  host_end: object({ pin }),
+  host_kick: object({ pin, playerId: string(32) }),
+  host_ban: object({ pin, playerId: string(32) }),
+  host_admit: object({ pin, playerId: string(32) }),
+  host_decline: object({ pin, playerId: string(32) }),
+  host_lock: object({ pin, locked: boolean() }),
+  answer: object({ pin, questionIndex, ...answerFields }),
+};
+
+const name = string(200);
+const player = object({
+  id: string(),
+  nickname: name,
+  connected: optional(boolean()),
+  team: optional(name),
+  spectator: optional(boolean()),
+});
+const leaderboard = array(object({ id: string(), nickname: name, team: optional(name), score: number() }));
+const teamLeaderboard = nullable(array(object({ team: name, score: number(), players: integer(0) })));
+const questionType = oneOf(QUESTION_TYPES);
+const choices = array(string(1000), 20);
+const uploadNames = optional(array(string(100), 20));
+const reveal = nullable(
+  object({
+    correctIndices: optional(array(integer(0), 20)),
+    acceptedAnswers: optional(array(string(1000))),
+    correctValue: optional(number()),
+    unit: optional(string()),
+  }),
+);
+const results = object({
+  total: integer(0),
+  counts: optional(array(integer(0), 20)),
+  words: optional(array(object({ text: string(1000), count: integer(0) }))),
+});
+const sliderFields = { min: number(), max: number(), step: number(), unit: string() };
+const timer = { endsAt: number(), paused: boolean(), remainingMs: number() };
+const standings = { leaderboard, top3: leaderboard, teamLeaderboard };
+const scoreFields = {
+  correct: boolean(),
+  credit: number(),
+  delta: number(),
+  breakdown: optional(
+    object({ base: number(), speed: number(), streak: number(), penalty: number(), multiplier: number() }),
+  ),
+};
+
+const SERVER_MESSAGES = {
+  welcome: object({
+    protocolVersion: optional(integer(1)),
+    id: string(),
+    pin,
+    nickname: name,
+    team: optional(name),
+    resumeToken: string(64),
+    resumed: boolean(),
+    spectator: optional(boolean()),
+    score: number(),
+    players: array(player),
+  }),
+  host_welcome: object({
+    protocolVersion: optional(integer(1)),
+    id: string(),
+    pin,
+    players: array(player),
+    state: oneOf(["waiting", "running", "ended"]),
+    questionIndex: integer(-1),
+    locked: optional(boolean()),
+  }),
+  room_update: object({ pin, players: array(player) }),
+  starting: object({ pin, startsAt: number() }),
+  game_started: object({ pin }),
+  question: object({
+    pin,
+    questionIndex,
+    totalQuestions: integer(1),
+    text: string(1000),
+    questionType,
+    choices,
+    image: optional(string(100)),
+    choiceImages: uploadNames,
+    slider: optional(object(sliderFields)),
+    pointsMultiplier: number(),
+    ...timer,
+  }),
+  question_timer: object({ pin, questionIndex, ...timer }),
+  answer_count: object({ pin, questionIndex, answered: integer(0), total: integer(0) }),
+  answer_received: object({ pin, questionIndex, ...answerFields }),
+  answer_result: object({ pin, questionIndex, ...answerFields, ...scoreFields, total: number() }),
+  live_results: object({ pin, questionIndex, results }),
+  question_over: object({
+    pin,
+    questionIndex,
+    text: string(1000),
+    questionType,
+    choices,
+    image: optional(string(100)),
+    choiceImages: uploadNames,
+    reveal,
+    results,
+    spread: optional(
+      object({
+        ...sliderFields,
+        correctValue: optional(number()),
+        values: array(number(), 100000),
+      }),
+    ),
+    you: optional(object({ answered: boolean(), ...answerFields })),
+    rankingAt: number(),
+    nextQuestionAt: number(),
+    ...standings,
+  }),
+  game_over: object({ pin, ...standings }),
+  host_status: object({ pin, connected: boolean() }),
+  host_left: object({ pin }),
+  kicked: object({ pin, banned: boolean() }),
+  lobby_locked: object({ pin, locked: boolean() }),
+  join_pending: object({ pin, nickname: name }),
+  join_declined: object({ pin }),
+  pending_players: object({ pin, players: array(player) }),
+  error: object({ code: string(), message: string(1000) }),
+};
+
+function parseMessage(raw, schemas) {
+  let value;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { ok: false, code: "INVALID_JSON", error: "Message is not valid JSON" };
+  }
+  const type = value?.type;
+  if (typeof type !== "string" || !Object.hasOwn(schemas, type)) {
+    return { ok: false, code: "UNKNOWN_MESSAGE_TYPE", error: `Unknown message type ${JSON.stringify(type)}` };
+  }
+  const problem = schemas[type](value, type) ?? optional(number())(value.serverNow, `${type}.serverNow`);
+  return problem ? { ok: false, code: "INVALID_MESSAGE", error: problem } : { ok: true, message: value };
+}
+
+export function parseClientMessage(raw) {
+  return parseMessage(raw, CLIENT_MESSAGES);
+}
+
+export function parseServerMessage(raw) {
+  return parseMessage(raw, SERVER_MESSAGES);
+}
+
+export function readServerMessage(raw) {
+  const parsed = parseServerMessage(raw);
+  if (parsed.ok) return parsed.message;
+  // A server and page out of step; worth seeing in the console rather than hanging silently.
+  console.error(`Ignored a message from the game server (${parsed.code}): ${parsed.error}`);
+  return null;
+}
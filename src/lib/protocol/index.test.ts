@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseClientMessage, parseServerMessage, readServerMessage } from "@/lib/protocol/index.mjs";
+
+const send = (message: unknown) => JSON.stringify(message);
+
+describe("parseClientMessage", () => {
+  it("accepts a well-formed message", () => {
+    const result = parseClientMessage(send({ type: "join", pin: "123456", nickname: "Ann", v: 4 }));
+    expect(result).toEqual({ ok: true, message: { type: "join", pin: "123456", nickname: "Ann", v: 4 } });
+  });
+
+  it("says what is wrong with a bad message", () => {
+    expect(parseClientMessage("{")).toMatchObject({ ok: false, code: "INVALID_JSON" });
+    expect(parseClientMessage(send({ type: "cheat", pin: "1" }))).toMatchObject({
+      ok: false,
+      code: "UNKNOWN_MESSAGE_TYPE",
+    });
+    expect(parseClientMessage(send({ type: "answer", pin: "1", questionIndex: 0, choiceIndex: -1 }))).toEqual({
+      ok: false,
+      code: "INVALID_MESSAGE",
+      error: "answer.choiceIndex must be an integer of at least 0",
+    });
+  });
+
+  it("caps lists a player sends", () => {
+    const choiceIndices = Array.from({ length: 21 }, (_, i) => i);
+    expect(parseClientMessage(send({ type: "answer", pin: "1", questionIndex: 0, choiceIndices }))).toMatchObject({
+      ok: false,
+      error: "answer.choiceIndices must be a list of at most 20 items",
+    });
+  });
+});
+
+describe("parseServerMessage", () => {
+  it("accepts rooms of any size", () => {
+    const players = Array.from({ length: 1500 }, (_, i) => ({ id: `p${i}`, nickname: `Player ${i}` }));
+    expect(parseServerMessage(send({ type: "room_update", pin: "1", players })).ok).toBe(true);
+  });
+
+  it("accepts a reveal with no correct choices but not one with a null choice", () => {
+    const questionOver = (correctIndices: unknown[]) =>
+      send({
+        type: "question_over",
+        pin: "1",
+        questionIndex: 0,
+        text: "q",
+        questionType: "single",
+        choices: ["A", "B"],
+        reveal: { correctIndices },
+        results: { total: 0, counts: [0, 0] },
+        rankingAt: 0,
+        nextQuestionAt: 0,
+        leaderboard: [],
+        top3: [],
+        teamLeaderboard: null,
+      });
+    expect(parseServerMessage(questionOver([])).ok).toBe(true);
+    expect(parseServerMessage(questionOver([null]))).toMatchObject({
+      ok: false,
+      error: "question_over.reveal.correctIndices[0] must be an integer of at least 0",
+    });
+  });
+
+  it("checks serverNow on every message", () => {
+    expect(parseServerMessage(send({ type: "host_left", pin: "1", serverNow: "now" }))).toMatchObject({
+      ok: false,
+      error: "host_left.serverNow must be a finite number",
+    });
+  });
+});
+
+describe("readServerMessage", () => {
+  it("returns good messages and logs the ones it drops", () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(readServerMessage(send({ type: "host_left", pin: "1" }))).toEqual({ type: "host_left", pin: "1" });
+    expect(log).not.toHaveBeenCalled();
+    expect(readServerMessage("{")).toBeNull();
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("Ignored a message from the game server (INVALID_JSON)"));
+    log.mockRestore();
+  });
+});
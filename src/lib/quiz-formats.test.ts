@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { normalizeQuizDraft, type QuizDraft } from "@/lib/quiz";
+import { exportQuiz, importQuiz } from "@/lib/quiz-formats";
+
+const draft: QuizDraft = {
+  topic: "Science",
+  questions: [
+    { id: "1", type: "single", text: "Pick B", choices: ["A", "B", "C"], correctIndex: 1, timerSeconds: 20 },
+    { id: "2", type: "true_false", text: "Water is wet", correctIndex: 0, timerSeconds: 10 },
+    { id: "3", type: "multi", text: "Pick A and C", choices: ["A", "B", "C"], correctIndices: [0, 2], timerSeconds: 10 },
+    { id: "4", type: "type_answer", text: "Capital of Thailand", acceptedAnswers: ["Bangkok"], maxTypos: 1, timerSeconds: 10 },
+    {
+      id: "5",
+      type: "slider",
+      text: "Boiling point",
+      min: 0,
+      max: 200,
+      step: 1,
+      correctValue: 100,
+      tolerance: 5,
+      unit: "°C",
+      timerSeconds: 10,
+    },
+    { id: "6", type: "poll", text: "Favourite", choices: ["Red", "Blue"], timerSeconds: 10 },
+  ],
+};
+
+/** What survives an export and import: everything but the IDs, which are made fresh. */
+function withoutIds(questions: { id: string }[]) {
+  return questions.map((q) => ({ ...q, id: "" }));
+}
+
+describe("JSON import", () => {
+  it("reads back its own export", () => {
+    const result = importQuiz(exportQuiz(draft, "json").content, "json");
+    expect(result.errors).toEqual([]);
+    expect(result.topic).toBe("Science");
+    expect(withoutIds(result.questions)).toEqual(withoutIds(normalizeQuizDraft(draft).questions));
+  });
+
+  it("reports rows of the wrong shape instead of throwing", () => {
+    const text = JSON.stringify({
+      topic: "Broken",
+      questions: [
+        { type: "single", text: "Choices as text", choices: "abc", correctIndex: 0 },
+        { type: "type_answer", text: "One answer", acceptedAnswers: "x", maxTypos: 0 },
+        { type: "multi", text: "One index", choices: ["A", "B"], correctIndices: 1 },
+        "not a question",
+        { type: "true_false", text: "Fine", correctIndex: 1 },
+      ],
+    });
+    const result = importQuiz(text, "json");
+    expect(result.questions.map((q) => q.text)).toEqual(["Fine"]);
+    expect(result.errors).toEqual([
+      { row: "Question 1", message: "Choices must be a list of text" },
+      { row: "Question 2", message: "Accepted answers must be a list of text" },
+      { row: "Question 3", message: "Correct choices must be a list of choice numbers" },
+      { row: "Question 4", message: "Not a question" },
+    ]);
+  });
+
+  it("reports files it can't read", () => {
+    expect(importQuiz("{", "json").errors).toEqual([{ row: "File", message: "Not valid JSON" }]);
+    expect(importQuiz("{}", "json").errors).toEqual([{ row: "File", message: "No questions found" }]);
+  });
+});
+
+describe("CSV import", () => {
+  it("reads back its own export", () => {
+    const result = importQuiz(exportQuiz(draft, "csv").content, "csv");
+    expect(result.errors).toEqual([]);
+    expect(result.questions.map((q) => q.type)).toEqual(["single", "true_false", "multi", "type_answer", "slider", "poll"]);
+    expect(result.questions[4]).toMatchObject({ correctValue: 100, tolerance: 5, unit: "°C" });
+  });
+
+  it("reports bad rows by row number", () => {
+    const csv = "type,question,choice_1,choice_2,correct\nsingle,Ok,A,B,2\nquiz,Bad type,,,\ntrue_false,Maybe,,,perhaps\n";
+    const result = importQuiz(csv, "csv");
+    expect(result.questions).toHaveLength(1);
+    expect(result.errors).toEqual([
+      { row: "Row 3", message: 'Unknown question type "quiz"' },
+      { row: "Row 4", message: "Correct answer must be True or False" },
+    ]);
+  });
+});
+
+describe("GIFT import", () => {
+  it("reads back its own export", () => {
+    const result = importQuiz(exportQuiz(draft, "gift").content, "gift");
+    expect(result.errors).toEqual([]);
+    expect(result.topic).toBe("Science");
+    expect(result.questions.map((q) => q.type)).toEqual(["single", "true_false", "multi", "type_answer", "slider", "poll"]);
+    expect(result.questions[2]).toMatchObject({ correctIndices: [0, 2] });
+  });
+});
+
+describe("Moodle XML export", () => {
+  it("leaves out polls, which Moodle can't import, and says so", () => {
+    const { content, skipped } = exportQuiz(draft, "moodle_xml");
+    expect(skipped).toEqual([{ row: "Question 6", message: "Moodle has no poll questions, so it was left out" }]);
+    expect(content).not.toContain("Favourite");
+    expect(content.match(/<question type="multichoice">/g)).toHaveLength(2);
+    // Every multiple-choice question it writes has an answer worth full or partial marks.
+    for (const question of content.split('<question type="multichoice">').slice(1)) {
+      expect(question).toMatch(/fraction="(100|50)"/);
+    }
+  });
+});
+
+describe("numeric answers from Moodle", () => {
+  it("become sliders whose step lands on the answer", () => {
+    const result = importQuiz("::Q1:: Pi to two places? {#3.14:0.01}\n\n::Q2:: Half of 9? {#4.5}\n", "gift");
+    expect(result.errors).toEqual([]);
+    expect(result.questions[0]).toMatchObject({ type: "slider", step: 0.01, correctValue: 3.14, tolerance: 0.01 });
+    expect(result.questions[1]).toMatchObject({ type: "slider", step: 0.1, correctValue: 4.5 });
+  });
+});
@@ -0,0 +1,634 @@
+import { formatCsv, parseCsv, UTF8_BOM } from "@/lib/csv";
+import {
+  createQuestionSeed,
+  MAX_CHOICES,
+  normalizeQuestion,
+  normalizeQuizDraft,
+  normalizeScoring,
+  normalizeShuffle,
+  pointsMultiplier,
+  type PointsMultiplier,
+  QUESTION_TYPE_LABELS,
+  questionShapeErrors,
+  type QuestionType,
+  type QuizDraft,
+  type QuizQuestion,
+  type ScoringSettings,
+  type ShuffleSettings,
+  validateQuestion,
+} from "@/lib/quiz";
+
+export type QuizFormat = "json" | "csv" | "gift" | "moodle_xml";
+
+export const QUIZ_FORMAT_LABELS: Record<QuizFormat, string> = {
+  json: "JSON",
+  csv: "CSV",
+  gift: "Moodle GIFT",
+  moodle_xml: "Moodle XML",
+};
+
+export const QUIZ_FORMAT_EXTENSIONS: Record<QuizFormat, string> = {
+  json: "json",
+  csv: "csv",
+  gift: "txt",
+  moodle_xml: "xml",
+};
+
+/** Marks our JSON exports; bump the version when the draft shape changes incompatibly. */
+export const QUIZ_JSON_FORMAT = "kahoot-moph-quiz";
+export const QUIZ_JSON_VERSION = 1;
+
+export type QuizImportError = { row: string; message: string };
+
+export type QuizImportResult = {
+  topic: string;
+  questions: QuizQuestion[];
+  scoring?: ScoringSettings;
+  shuffle?: ShuffleSettings;
+  /** Questions that failed `validateQuestion` are left out and listed here. */
+  errors: QuizImportError[];
+};
+
+export type QuizExportResult = {
+  content: string;
+  /** Questions the format can't hold; they are left out of `content`. */
+  skipped: QuizImportError[];
+};
+
+export function quizFormatFromFileName(name: string): QuizFormat | null {
+  const ext = name.toLowerCase().split(".").pop() ?? "";
+  if (ext === "json") return "json";
+  if (ext === "csv") return "csv";
+  if (ext === "xml") return "moodle_xml";
+  if (ext === "gift" || ext === "txt") return "gift";
+  return null;
+}
+
+function isQuestionType(value: string): value is QuestionType {
+  return Object.hasOwn(QUESTION_TYPE_LABELS, value);
+}
+
+/** Runs an imported question through the editor's own checks. */
+function collect(result: QuizImportResult, row: string, candidate: QuizQuestion) {
+  const question = normalizeQuestion({ ...candidate, id: crypto.randomUUID() });
+  const err = validateQuestion(question);
+  if (err) result.errors.push({ row, message: err });
+  else result.questions.push(question);
+}
+
+// ---------------------------------------------------------------------------
+// JSON
+
+export function exportQuizJson(draft: QuizDraft): string {
+  const quiz = normalizeQuizDraft(draft);
+  return `${JSON.stringify({ format: QUIZ_JSON_FORMAT, version: QUIZ_JSON_VERSION, quiz }, null, 2)}\n`;
+}
+
+function importQuizJson(text: string): QuizImportResult {
+  const result: QuizImportResult = { topic: "", questions: [], errors: [] };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    result.errors.push({ row: "File", message: "Not valid JSON" });
+    return result;
+  }
+
+  const wrapper = parsed as { format?: unknown; version?: unknown; quiz?: unknown };
+  if (wrapper?.format === QUIZ_JSON_FORMAT && typeof wrapper.version === "number") {
+    if (wrapper.version > QUIZ_JSON_VERSION) {
+      result.errors.push({ row: "File", message: `Made by a newer version (v${wrapper.version})` });
+      return result;
+    }
+  }
+  // Bare drafts (like a room's saved quiz) are accepted too.
+  const quiz = (wrapper?.format === QUIZ_JSON_FORMAT ? wrapper.quiz : parsed) as Partial<QuizDraft> | null;
+  if (!quiz || !Array.isArray(quiz.questions)) {
+    result.errors.push({ row: "File", message: "No questions found" });
+    return result;
+  }
+
+  result.topic = typeof quiz.topic === "string" ? quiz.topic.trim() : "";
+  if (quiz.scoring) result.scoring = normalizeScoring(quiz.scoring);
+  if (quiz.shuffle) result.shuffle = normalizeShuffle(quiz.shuffle);
+  const seed = createQuestionSeed();
+  quiz.questions.forEach((q: unknown, idx) => {
+    const row = `Question ${idx + 1}`;
+    if (!q || typeof q !== "object" || Array.isArray(q)) {
+      result.errors.push({ row, message: "Not a question" });
+      return;
+    }
+    // Hand-written files may leave out the ID and timer; `collect` sets a fresh ID anyway.
+    const candidate = { timerSeconds: seed.timerSeconds, ...q, id: seed.id };
+    const shapeError = questionShapeErrors(candidate, "question")[0];
+    if (shapeError) result.errors.push({ row, message: shapeError.message });
+    else collect(result, row, candidate as QuizQuestion);
+  });
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// CSV: one question per row; `correct` holds choice numbers, accepted answers or the
+// slider value, with several values separated by "|".
+
+const CSV_COLUMNS = [
+  "type",
+  "question",
+  ...Array.from({ length: MAX_CHOICES }, (_, i) => `choice_${i + 1}`),
+  "correct",
+  "time_limit",
+  "points",
+  "min",
+  "max",
+  "step",
+  "tolerance",
+  "unit",
+  "max_typos",
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+export function exportQuizCsv(draft: QuizDraft): string {
+  const quiz = normalizeQuizDraft(draft);
+  const rows = quiz.questions.map((q) => {
+    const row: Partial<Record<CsvColumn, string | number>> = {
+      type: q.type,
+      question: q.text,
+      time_limit: q.timerSeconds,
+      points: pointsMultiplier(q),
+    };
+    if (q.type === "single" || q.type === "multi" || q.type === "poll") {
+      q.choices.forEach((c, i) => {
+        row[`choice_${i + 1}` as CsvColumn] = c;
+      });
+    }
+    if (q.type === "single") row.correct = q.correctIndex + 1;
+    if (q.type === "true_false") row.correct = q.correctIndex === 0 ? "True" : "False";
+    if (q.type === "multi") row.correct = q.correctIndices.map((i) => i + 1).join("|");
+    if (q.type === "type_answer") {
+      row.correct = q.acceptedAnswers.join("|");
+      row.max_typos = q.maxTypos;
+    }
+    if (q.type === "slider") {
+      Object.assign(row, {
+        correct: q.correctValue,
+        min: q.min,
+        max: q.max,
+        step: q.step,
+        tolerance: q.tolerance,
+        unit: q.unit,
+      });
+    }
+    return CSV_COLUMNS.map((col) => row[col] ?? "");
+  });
+  return UTF8_BOM + formatCsv([[...CSV_COLUMNS], ...rows]);
+}
+
+/** "2", "B" or "b" → 1; anything else → NaN, which validation reports. */
+function choiceIndexFromCell(value: string): number {
+  const v = value.trim();
+  if (/^\d+$/.test(v)) return Number(v) - 1;
+  if (/^[a-z]$/i.test(v)) return v.toLowerCase().charCodeAt(0) - 97;
+  return Number.NaN;
+}
+
+function numberFromCell(value: string | undefined, fallback: number): number {
+  const v = value?.trim();
+  if (!v) return fallback;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+function importQuizCsv(text: string): QuizImportResult {
+  const result: QuizImportResult = { topic: "", questions: [], errors: [] };
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map((h) => h.trim().toLowerCase());
+  if (!columns.includes("question")) {
+    result.errors.push({ row: "Row 1", message: `Header row needs a "question" column` });
+    return result;
+  }
+
+  rows.forEach((cells, idx) => {
+    const row = `Row ${idx + 2}`;
+    if (cells.every((c) => !c.trim())) return;
+    const cell = (name: CsvColumn) => cells[columns.indexOf(name)]?.trim() ?? "";
+
+    const typeCell = cell("type").toLowerCase() || "single";
+    if (!isQuestionType(typeCell)) {
+      result.errors.push({ row, message: `Unknown question type "${typeCell}"` });
+      return;
+    }
+
+    const seed = createQuestionSeed();
+    const choiceCells = Array.from({ length: MAX_CHOICES }, (_, i) => cell(`choice_${i + 1}` as CsvColumn));
+    const lastChoice = choiceCells.findLastIndex((c) => c);
+    const choices = choiceCells.slice(0, lastChoice + 1);
+    const correct = cell("correct");
+    const base = {
+      id: seed.id,
+      text: cell("question"),
+      timerSeconds: numberFromCell(cell("time_limit"), seed.timerSeconds),
+      // Anything but 0 or 2 becomes standard points in normalizeQuestion.
+      pointsMultiplier: numberFromCell(cell("points"), 1) as PointsMultiplier,
+    };
+
+    let candidate: QuizQuestion;
+    if (typeCell === "single") {
+      candidate = { ...base, type: typeCell, choices, correctIndex: choiceIndexFromCell(correct) };
+    } else if (typeCell === "true_false") {
+      const v = correct.toLowerCase();
+      if (["true", "t", "1", "จริง", "ถูก"].includes(v)) candidate = { ...base, type: typeCell, correctIndex: 0 };
+      else if (["false", "f", "2", "เท็จ", "ผิด"].includes(v)) candidate = { ...base, type: typeCell, correctIndex: 1 };
+      else {
+        result.errors.push({ row, message: `Correct answer must be True or False` });
+        return;
+      }
+    } else if (typeCell === "multi") {
+      const correctIndices = correct.split("|").filter(Boolean).map(choiceIndexFromCell);
+      if (correctIndices.some((i) => !Number.isInteger(i) || i < 0 || i >= choices.length)) {
+        result.errors.push({ row, message: `Correct choices must be choice numbers, e.g. 1|3` });
+        return;
+      }
+      candidate = { ...base, type: typeCell, choices, correctIndices };
+    } else if (typeCell === "type_answer") {
+      candidate = {
+        ...base,
+        type: typeCell,
+        acceptedAnswers: correct.split("|").map((a) => a.trim()),
+        maxTypos: numberFromCell(cell("max_typos"), 0),
+      };
+    } else if (typeCell === "slider") {
+      const min = numberFromCell(cell("min"), 0);
+      candidate = {
+        ...base,
+        type: typeCell,
+        min,
+        max: numberFromCell(cell("max"), 100),
+        step: numberFromCell(cell("step"), 1),
+        correctValue: numberFromCell(correct, Number.NaN),
+        tolerance: numberFromCell(cell("tolerance"), 0),
+        unit: cell("unit"),
+      };
+      if (!Number.isFinite(candidate.correctValue)) {
+        result.errors.push({ row, message: "Correct value must be a number" });
+        return;
+      }
+    } else if (typeCell === "poll") {
+      candidate = { ...base, type: typeCell, choices };
+    } else {
+      candidate = { ...base, type: typeCell };
+    }
+    collect(result, row, candidate);
+  });
+  return result;
+}
+
+/**
+ * A slider for an imported numeric answer: centred on it, with a step that lands on it
+ * exactly (answers are snapped to the step) and at most 10000 steps across.
+ */
+function sliderAround(correctValue: number, tolerance: number) {
+  const decimals = Math.min(4, (String(correctValue).split(".")[1] ?? "").length);
+  const step = Number((10 ** -decimals).toFixed(decimals));
+  const range = Math.min(Math.max(Math.abs(correctValue), tolerance * 4, 10), step * 5000);
+  const steps = Math.ceil(range / step);
+  return {
+    min: Number((correctValue - steps * step).toFixed(decimals)),
+    max: Number((correctValue + steps * step).toFixed(decimals)),
+    step,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Moodle GIFT: https://docs.moodle.org/en/GIFT_format
+
+function giftEscape(text: string) {
+  return text.replace(/([~=#{}:\\])/g, "\\$1").replace(/\n/g, "\\n");
+}
+
+function giftUnescape(text: string) {
+  return text.replace(/\\n/g, "\n").replace(/\\([~=#{}:\\])/g, "$1").trim();
+}
+
+/** Moodle accepts 100/n for the partial-credit weights we need (n ≤ 6). */
+function partialWeight(correctCount: number) {
+  return String(Number((100 / Math.max(1, correctCount)).toFixed(5)));
+}
+
+export function exportQuizGift(draft: QuizDraft): string {
+  const quiz = normalizeQuizDraft(draft);
+  const blocks = quiz.questions.map((q, idx) => {
+    const head = `::Q${idx + 1}:: ${giftEscape(q.text)}`;
+    if (q.type === "true_false") return `${head} {${q.correctIndex === 0 ? "T" : "F"}}`;
+    if (q.type === "word_cloud") return `${head} {}`;
+    if (q.type === "slider") return `${head} {#${q.correctValue}:${q.tolerance}}`;
+    let lines: string[] = [];
+    if (q.type === "single") {
+      lines = q.choices.map((c, i) => `${i === q.correctIndex ? "=" : "~"}${giftEscape(c)}`);
+    } else if (q.type === "multi") {
+      const weight = partialWeight(q.correctIndices.length);
+      lines = q.choices.map(
+        (c, i) => `~%${q.correctIndices.includes(i) ? weight : "-100"}%${giftEscape(c)}`,
+      );
+    } else if (q.type === "type_answer") {
+      lines = q.acceptedAnswers.map((a) => `=${giftEscape(a)}`);
+    } else if (q.type === "poll") {
+      // Every choice "wrong": read back as a poll.
+      lines = q.choices.map((c) => `~${giftEscape(c)}`);
+    }
+    return `${head} {\n${lines.map((l) => `\t${l}`).join("\n")}\n}`;
+  });
+  return [`$CATEGORY: ${quiz.topic}`, ...blocks].join("\n\n") + "\n";
+}
+
+/** Splits `=a ~b ~%50%c` into answers, ignoring escaped markers and `#feedback`. */
+function giftAnswers(body: string) {
+  const answers: Array<{ marker: "=" | "~"; weight: number | null; text: string }> = [];
+  let current: (typeof answers)[number] | null = null;
+  let text = "";
+  const flush = () => {
+    if (!current) return;
+    const feedbackAt = text.search(/(?<!\\)#/);
+    let value = feedbackAt >= 0 ? text.slice(0, feedbackAt) : text;
+    const weight = /^%(-?\d+(?:\.\d+)?)%/.exec(value);
+    if (weight) value = value.slice(weight[0].length);
+    answers.push({ ...current, weight: weight ? Number(weight[1]) : null, text: giftUnescape(value) });
+  };
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i]!;
+    if (ch === "\\") {
+      text += ch + (body[i + 1] ?? "");
+      i++;
+    } else if (ch === "=" || ch === "~") {
+      flush();
+      current = { marker: ch, weight: null, text: "" };
+      text = "";
+    } else {
+      text += ch;
+    }
+  }
+  flush();
+  return answers;
+}
+
+function giftQuestion(text: string, body: string): QuizQuestion | string {
+  const seed = createQuestionSeed();
+  const base = { id: seed.id, text, timerSeconds: seed.timerSeconds };
+  const trimmed = body.trim();
+
+  if (!trimmed) return { ...base, type: "word_cloud" };
+  const tf = /^(T|TRUE|F|FALSE)\b/i.exec(trimmed);
+  if (tf) return { ...base, type: "true_false", correctIndex: tf[1]!.toUpperCase().startsWith("T") ? 0 : 1 };
+
+  if (trimmed.startsWith("#")) {
+    const numeric = /^#\s*=?\s*(-?\d+(?:\.\d+)?)\s*(?::\s*(\d+(?:\.\d+)?)|\.\.\s*(-?\d+(?:\.\d+)?))?/.exec(trimmed);
+    if (!numeric) return "Could not read the numeric answer";
+    const low = Number(numeric[1]);
+    // `#min..max` accepts a range: aim at its middle with a tolerance of half its width.
+    const correctValue = numeric[3] !== undefined ? (low + Number(numeric[3])) / 2 : low;
+    const tolerance = numeric[3] !== undefined ? Math.abs(Number(numeric[3]) - low) / 2 : Number(numeric[2] ?? 0);
+    return {
+      ...base,
+      type: "slider",
+      ...sliderAround(correctValue, tolerance),
+      correctValue,
+      tolerance,
+      unit: "",
+    };
+  }
+
+  const answers = giftAnswers(trimmed);
+  if (answers.length === 0) return "No answers found";
+  if (answers.every((a) => a.marker === "=")) {
+    return { ...base, type: "type_answer", acceptedAnswers: answers.map((a) => a.text), maxTypos: 0 };
+  }
+
+  const choices = answers.map((a) => a.text);
+  const correct = answers
+    .map((a, i) => (a.marker === "=" || (a.weight ?? 0) > 0 ? i : -1))
+    .filter((i) => i >= 0);
+  if (correct.length === 0) return { ...base, type: "poll", choices };
+  if (correct.length === 1) return { ...base, type: "single", choices, correctIndex: correct[0]! };
+  return { ...base, type: "multi", choices, correctIndices: correct };
+}
+
+function importQuizGift(text: string): QuizImportResult {
+  const result: QuizImportResult = { topic: "", questions: [], errors: [] };
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((line) => !line.trim().startsWith("//"));
+
+  const blocks: string[] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    const category = /^\s*\$CATEGORY:\s*(.*)$/.exec(line);
+    if (category) {
+      result.topic = category[1]!.replace(/^\$\w+\$\//, "").split("/").pop()!.trim();
+    } else if (line.trim()) {
+      current.push(line);
+    } else if (current.length) {
+      blocks.push(current.join("\n"));
+      current = [];
+    }
+  }
+  if (current.length) blocks.push(current.join("\n"));
+
+  blocks.forEach((block, idx) => {
+    const row = `Question ${idx + 1}`;
+    const open = block.search(/(?<!\\)\{/);
+    const close = open >= 0 ? block.slice(open).search(/(?<!\\)\}/) + open : -1;
+    if (open < 0 || close < open) {
+      result.errors.push({ row, message: "No answer block {…} found" });
+      return;
+    }
+    const stem = `${block.slice(0, open)} ${block.slice(close + 1)}`
+      .replace(/^\s*::[\s\S]*?(?<!\\)::/, "")
+      .replace(/^\s*\[(html|plain|markdown|moodle)\]/i, "");
+    const parsed = giftQuestion(giftUnescape(stem).replace(/\s+/g, " "), block.slice(open + 1, close));
+    if (typeof parsed === "string") result.errors.push({ row, message: parsed });
+    else collect(result, row, parsed);
+  });
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Moodle XML: https://docs.moodle.org/en/Moodle_XML_format
+
+function xmlEscape(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function xmlText(text: string | number) {
+  return `<text>${xmlEscape(String(text))}</text>`;
+}
+
+function xmlAnswer(fraction: string | number, text: string | number, extra = "") {
+  return `    <answer fraction="${fraction}" format="plain_text">${xmlText(text)}${extra}</answer>`;
+}
+
+/** Polls are left out: Moodle refuses a multiple-choice question with no right answer. */
+export function exportQuizMoodleXml(draft: QuizDraft): QuizExportResult {
+  const quiz = normalizeQuizDraft(draft);
+  const skipped: QuizImportError[] = [];
+  const questions = quiz.questions.flatMap((q, idx) => {
+    if (q.type === "poll") {
+      skipped.push({ row: `Question ${idx + 1}`, message: "Moodle has no poll questions, so it was left out" });
+      return [];
+    }
+    const body: string[] = [];
+    let moodleType = "multichoice";
+    if (q.type === "single") {
+      body.push("    <single>true</single>", "    <shuffleanswers>0</shuffleanswers>");
+      q.choices.forEach((c, i) => body.push(xmlAnswer(i === q.correctIndex ? 100 : 0, c)));
+    } else if (q.type === "multi") {
+      const weight = partialWeight(q.correctIndices.length);
+      body.push("    <single>false</single>", "    <shuffleanswers>0</shuffleanswers>");
+      q.choices.forEach((c, i) => body.push(xmlAnswer(q.correctIndices.includes(i) ? weight : -100, c)));
+    } else if (q.type === "true_false") {
+      moodleType = "truefalse";
+      body.push(xmlAnswer(q.correctIndex === 0 ? 100 : 0, "true"), xmlAnswer(q.correctIndex === 1 ? 100 : 0, "false"));
+    } else if (q.type === "type_answer") {
+      moodleType = "shortanswer";
+      body.push("    <usecase>0</usecase>", ...q.acceptedAnswers.map((a) => xmlAnswer(100, a)));
+    } else if (q.type === "slider") {
+      moodleType = "numerical";
+      body.push(xmlAnswer(100, q.correctValue, `<tolerance>${q.tolerance}</tolerance>`));
+    } else {
+      moodleType = "essay";
+    }
+    return [
+      `  <question type="${moodleType}">`,
+      `    <name>${xmlText(`Q${idx + 1}`)}</name>`,
+      `    <questiontext format="plain_text">${xmlText(q.text)}</questiontext>`,
+      // Our points multiplier maps onto Moodle's default mark.
+      `    <defaultgrade>${pointsMultiplier(q)}</defaultgrade>`,
+      ...body,
+      "  </question>",
+    ].join("\n");
+  });
+  const content = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<quiz>",
+    `  <question type="category">\n    <category>${xmlText(`$course$/top/${quiz.topic}`)}</category>\n  </question>`,
+    ...questions,
+    "</quiz>",
+    "",
+  ].join("\n");
+  return { content, skipped };
+}
+
+function childText(el: Element, selector: string): string {
+  const node = el.querySelector(selector);
+  const raw = node?.textContent ?? "";
+  const format = node?.parentElement?.getAttribute("format") ?? node?.getAttribute("format");
+  if (format === "html" || format === "moodle_auto_format") {
+    return (new DOMParser().parseFromString(raw, "text/html").body.textContent ?? "").trim();
+  }
+  return raw.trim();
+}
+
+function moodleQuestion(el: Element, text: string): QuizQuestion | string {
+  const seed = createQuestionSeed();
+  const grade = Number(el.querySelector(":scope > defaultgrade")?.textContent ?? "1");
+  const base = {
+    id: seed.id,
+    text,
+    timerSeconds: seed.timerSeconds,
+    pointsMultiplier: pointsMultiplier({ pointsMultiplier: grade as PointsMultiplier }),
+  };
+  const answers = Array.from(el.querySelectorAll(":scope > answer")).map((a) => ({
+    fraction: Number(a.getAttribute("fraction") ?? "0"),
+    text: childText(a, ":scope > text"),
+    tolerance: Number(a.querySelector(":scope > tolerance")?.textContent ?? "0"),
+  }));
+  const type = el.getAttribute("type");
+
+  if (type === "essay") return { ...base, type: "word_cloud" };
+  if (type === "truefalse") {
+    const right = answers.find((a) => a.fraction > 0)?.text.toLowerCase();
+    return { ...base, type: "true_false", correctIndex: right === "false" ? 1 : 0 };
+  }
+  if (type === "shortanswer") {
+    return {
+      ...base,
+      type: "type_answer",
+      acceptedAnswers: answers.filter((a) => a.fraction > 0).map((a) => a.text),
+      maxTypos: 0,
+    };
+  }
+  if (type === "numerical") {
+    const right = answers.find((a) => a.fraction > 0);
+    const correctValue = Number(right?.text);
+    if (!right || !Number.isFinite(correctValue)) return "Could not read the numeric answer";
+    const tolerance = Number.isFinite(right.tolerance) ? right.tolerance : 0;
+    return {
+      ...base,
+      type: "slider",
+      ...sliderAround(correctValue, tolerance),
+      correctValue,
+      tolerance,
+      unit: "",
+    };
+  }
+  if (type === "multichoice") {
+    const choices = answers.map((a) => a.text);
+    const correct = answers.map((a, i) => (a.fraction > 0 ? i : -1)).filter((i) => i >= 0);
+    const single = el.querySelector(":scope > single")?.textContent?.trim() !== "false";
+    if (correct.length === 0) return { ...base, type: "poll", choices };
+    if (single && correct.length === 1) {
+      return { ...base, type: "single", choices, correctIndex: correct[0]! };
+    }
+    return { ...base, type: "multi", choices, correctIndices: correct };
+  }
+  return `Unsupported question type "${type}"`;
+}
+
+function importQuizMoodleXml(text: string): QuizImportResult {
+  const result: QuizImportResult = { topic: "", questions: [], errors: [] };
+  if (typeof DOMParser === "undefined") {
+    result.errors.push({ row: "File", message: "Moodle XML can only be imported in the browser" });
+    return result;
+  }
+  const doc = new DOMParser().parseFromString(text.replace(/^\uFEFF/, ""), "application/xml");
+  if (doc.querySelector("parsererror") || doc.documentElement.nodeName !== "quiz") {
+    result.errors.push({ row: "File", message: "Not a Moodle XML quiz file" });
+    return result;
+  }
+
+  let count = 0;
+  for (const el of Array.from(doc.documentElement.children)) {
+    if (el.nodeName !== "question") continue;
+    if (el.getAttribute("type") === "category") {
+      const path = childText(el, "category > text");
+      result.topic = path.replace(/^\$\w+\$\//, "").split("/").pop()!.trim();
+      continue;
+    }
+    const row = `Question ${++count}`;
+    const parsed = moodleQuestion(el, childText(el, ":scope > questiontext > text").replace(/\s+/g, " "));
+    if (typeof parsed === "string") result.errors.push({ row, message: parsed });
+    else collect(result, row, parsed);
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+
+export function exportQuiz(draft: QuizDraft, format: QuizFormat): QuizExportResult {
+  if (format === "moodle_xml") return exportQuizMoodleXml(draft);
+  if (format === "csv") return { content: exportQuizCsv(draft), skipped: [] };
+  if (format === "gift") return { content: exportQuizGift(draft), skipped: [] };
+  return { content: exportQuizJson(draft), skipped: [] };
+}
+
+export function importQuiz(text: string, format: QuizFormat): QuizImportResult {
+  if (format === "csv") return importQuizCsv(text);
+  if (format === "gift") return importQuizGift(text);
+  if (format === "moodle_xml") return importQuizMoodleXml(text);
+  return importQuizJson(text);
+}
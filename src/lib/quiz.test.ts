@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { createQuestionSeed, quizDraftErrors, validateQuestion, type SliderQuestion } from "@/lib/quiz";
+
+function slider(fields: Partial<SliderQuestion>): SliderQuestion {
+  return { ...(createQuestionSeed("slider") as SliderQuestion), text: "How many?", ...fields };
+}
+
+describe("validateQuestion", () => {
+  it("accepts a slider whose correct value is on a step", () => {
+    expect(validateQuestion(slider({ min: 0, max: 10, step: 0.5, correctValue: 7.5 }))).toBeNull();
+    expect(validateQuestion(slider({ min: 1, max: 100, step: 3, correctValue: 4 }))).toBeNull();
+  });
+
+  it("rejects a slider correct value players could never hit", () => {
+    expect(validateQuestion(slider({ min: 0, max: 10, step: 0.5, correctValue: 7.3 }))).toBe(
+      "Correct value must be min plus a whole number of steps",
+    );
+    expect(validateQuestion(slider({ min: 1, max: 100, step: 3, correctValue: 5 }))).toBe(
+      "Correct value must be min plus a whole number of steps",
+    );
+  });
+});
+
+describe("quizDraftErrors", () => {
+  it("ties each problem to its field", () => {
+    const errors = quizDraftErrors({
+      topic: "Quiz",
+      questions: [
+        { id: "a", type: "single", text: "Fine", choices: ["A", "B"], correctIndex: 0, timerSeconds: 10 },
+        { id: "b", type: "single", text: "Bad", choices: "AB", correctIndex: 0, timerSeconds: 10 },
+      ],
+    });
+    expect(errors).toEqual([{ field: "questions[1].choices", message: "Choices must be a list of text" }]);
+  });
+
+  it("checks meaning once the shape is right", () => {
+    const errors = quizDraftErrors({
+      topic: "Quiz",
+      questions: [{ ...slider({ min: 0, max: 10, step: 2, correctValue: 3 }), id: "s" }],
+    });
+    expect(errors).toEqual([
+      { field: "questions[0].correctValue", message: "Correct value must be min plus a whole number of steps" },
+    ]);
+  });
+
+  it("reports too many choices instead of dropping some", () => {
+    const choices = ["A", "B", "C", "D", "E", "F", "G"];
+    const question = { id: "a", type: "single", text: "Pick G", choices, correctIndex: 6, timerSeconds: 10 };
+    expect(quizDraftErrors({ topic: "Quiz", questions: [question] })).toEqual([
+      { field: "questions[0].choices", message: "Use 2–6 choices" },
+    ]);
+  });
+
+  it("needs a quiz", () => {
+    expect(quizDraftErrors(null)).toEqual([{ field: "quiz", message: "Quiz is required" }]);
+  });
+});
@@ -1,69 +1,525 @@
-export type QuizQuestion = {
+import { isUploadName } from "@/lib/uploads";
+
+export type QuestionType =
+  | "single"
+  | "true_false"
+  | "multi"
+  | "type_answer"
+  | "slider"
+  | "poll"
+  | "word_cloud";
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: "Single choice",
+  true_false: "True / false",
+  multi: "Multi-select",
+  type_answer: "Type answer",
+  slider: "Slider",
+  poll: "Poll (no points)",
+  word_cloud: "Word cloud (no points)",
+};
+
+export const MIN_CHOICES = 2;
+export const MAX_CHOICES = 6;
+export const TRUE_FALSE_CHOICES = ["True", "False"] as const;
+export const MAX_ACCEPTED_ANSWERS = 10;
+export const MAX_TYPOS = 3;
+
+/** How answers are turned into points; set once per quiz. */
+export type ScoringSettings = {
+  /** Faster answers earn up to as much again as the base points; off scores accuracy only. */
+  speedBonus: boolean;
+  /** Each correct answer in a row adds a growing bonus. */
+  streakBonus: boolean;
+  /** Wrong answers lose points instead of scoring nothing. */
+  negativeMarking: boolean;
+};
+
+export const DEFAULT_SCORING: ScoringSettings = {
+  speedBonus: true,
+  streakBonus: false,
+  negativeMarking: false,
+};
+
+/** Orders that change from game to game, so neighbours can't copy by position. */
+export type ShuffleSettings = {
+  /** Each session asks the questions in a new order. */
+  questions: boolean;
+  /** Each player sees the choices of choice questions in their own order. */
+  choices: boolean;
+};
+
+export const DEFAULT_SHUFFLE: ShuffleSettings = {
+  questions: false,
+  choices: false,
+};
+
+/** Scales everything a question is worth: no points, standard or double points. */
+export type PointsMultiplier = 0 | 1 | 2;
+
+export const POINTS_MULTIPLIER_LABELS: Record<PointsMultiplier, string> = {
+  1: "Standard",
+  2: "Double points",
+  0: "No points",
+};
+
+type QuestionBase = {
   id: string;
   text: string;
-  choices: [string, string, string, string];
-  correctIndex: 0 | 1 | 2 | 3;
   timerSeconds: number;
+  pointsMultiplier?: PointsMultiplier;
+  /** Upload name of a picture shown with the question. */
+  image?: string;
+  /** Upload names of pictures for each choice, by index; "" where a choice has none. */
+  choiceImages?: string[];
+};
+
+export type SingleChoiceQuestion = QuestionBase & {
+  type: "single";
+  choices: string[];
+  correctIndex: number;
+};
+
+export type TrueFalseQuestion = QuestionBase & {
+  type: "true_false";
+  correctIndex: 0 | 1;
+};
+
+/** Players pick every choice they think is correct; partial picks earn partial credit. */
+export type MultiSelectQuestion = QuestionBase & {
+  type: "multi";
+  choices: string[];
+  correctIndices: number[];
+};
+
+/**
+ * Players type their answer. The server compares it to each accepted answer after
+ * normalizing case, whitespace, Thai tone marks and zero-width characters, allowing
+ * up to `maxTypos` edits.
+ */
+export type TypeAnswerQuestion = QuestionBase & {
+  type: "type_answer";
+  acceptedAnswers: string[];
+  maxTypos: number;
+};
+
+/**
+ * Players pick a number between `min` and `max`. Answers within `tolerance` of
+ * `correctValue` earn points that shrink with the distance.
+ */
+export type SliderQuestion = QuestionBase & {
+  type: "slider";
+  min: number;
+  max: number;
+  step: number;
+  correctValue: number;
+  tolerance: number;
+  unit: string;
+};
+
+/** An ungraded question: the host sees live results and nobody's score changes. */
+export type PollQuestion = QuestionBase & {
+  type: "poll";
+  choices: string[];
+};
+
+/** An ungraded open-text question; the host sees matching answers grouped and counted. */
+export type WordCloudQuestion = QuestionBase & {
+  type: "word_cloud";
 };
 
+export type QuizQuestion =
+  | SingleChoiceQuestion
+  | TrueFalseQuestion
+  | MultiSelectQuestion
+  | TypeAnswerQuestion
+  | SliderQuestion
+  | PollQuestion
+  | WordCloudQuestion;
+
 export type QuizDraft = {
   topic: string;
   questions: QuizQuestion[];
+  scoring?: ScoringSettings;
+  shuffle?: ShuffleSettings;
 };
 
-export function createQuestionSeed(): QuizQuestion {
+export function createQuestionSeed(type: QuestionType = "single"): QuizQuestion {
+  const base = { id: crypto.randomUUID(), text: "", timerSeconds: 10 };
+  if (type === "true_false") return { ...base, type, correctIndex: 0 };
+  if (type === "multi") return { ...base, type, choices: ["", "", "", ""], correctIndices: [0] };
+  if (type === "type_answer") return { ...base, type, acceptedAnswers: [""], maxTypos: 0 };
+  if (type === "slider") {
+    return { ...base, type, min: 0, max: 100, step: 1, correctValue: 50, tolerance: 10, unit: "" };
+  }
+  if (type === "poll") return { ...base, type, choices: ["", "", "", ""] };
+  if (type === "word_cloud") return { ...base, type };
+  return { ...base, type: "single", choices: ["", "", "", ""], correctIndex: 0 };
+}
+
+/** Questions saved before question types existed have no `type` and are single choice. */
+export function questionType(q: Pick<QuizQuestion, "type">): QuestionType {
+  return q.type && Object.hasOwn(QUESTION_TYPE_LABELS, q.type) ? q.type : "single";
+}
+
+/** Polls and word clouds have no correct answer and never change scores. */
+export function isGradedQuestion(q: Pick<QuizQuestion, "type">): boolean {
+  const type = questionType(q);
+  return type !== "poll" && type !== "word_cloud";
+}
+
+/** Questions saved before multipliers existed are worth standard points. */
+export function pointsMultiplier(q: Pick<QuizQuestion, "pointsMultiplier">): PointsMultiplier {
+  return q.pointsMultiplier === 0 || q.pointsMultiplier === 2 ? q.pointsMultiplier : 1;
+}
+
+export function normalizeScoring(input?: Partial<ScoringSettings> | null): ScoringSettings {
   return {
-    id: crypto.randomUUID(),
-    text: "",
-    choices: ["", "", "", ""],
-    correctIndex: 0,
-    timerSeconds: 10,
+    speedBonus: input?.speedBonus ?? DEFAULT_SCORING.speedBonus,
+    streakBonus: input?.streakBonus ?? DEFAULT_SCORING.streakBonus,
+    negativeMarking: input?.negativeMarking ?? DEFAULT_SCORING.negativeMarking,
   };
 }
 
+export function normalizeShuffle(input?: Partial<ShuffleSettings> | null): ShuffleSettings {
+  return {
+    questions: input?.questions ?? DEFAULT_SHUFFLE.questions,
+    choices: input?.choices ?? DEFAULT_SHUFFLE.choices,
+  };
+}
+
+export function questionChoices(q: QuizQuestion): string[] {
+  if (q.type === "true_false") return [...TRUE_FALSE_CHOICES];
+  if (q.type === "type_answer" || q.type === "slider" || q.type === "word_cloud") return [];
+  return q.choices;
+}
+
+export function hasEditableChoices(
+  q: QuizQuestion,
+): q is SingleChoiceQuestion | MultiSelectQuestion | PollQuestion {
+  return q.type === "single" || q.type === "multi" || q.type === "poll";
+}
+
+export function clampMaxTypos(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(MAX_TYPOS, Math.max(0, Math.round(value)));
+}
+
+/** Switches a question to another type, keeping its text, timer and as many choices as fit. */
+export function changeQuestionType(q: QuizQuestion, type: QuestionType): QuizQuestion {
+  if (questionType(q) === type) return q;
+  const base = {
+    id: q.id,
+    text: q.text,
+    timerSeconds: q.timerSeconds,
+    pointsMultiplier: q.pointsMultiplier,
+    image: q.image,
+    choiceImages: q.choiceImages,
+  };
+  if (type === "slider") return { ...(createQuestionSeed("slider") as SliderQuestion), ...base };
+  if (type === "word_cloud") return { ...base, type };
+  const choices = hasEditableChoices(q) ? q.choices : ["", "", "", ""];
+  if (type === "poll") return { ...base, type, choices };
+  if (type === "type_answer") {
+    // The correct choice text is usually a good first accepted answer.
+    const correctChoice =
+      q.type === "single"
+        ? q.choices[q.correctIndex]
+        : q.type === "multi"
+          ? q.choices[q.correctIndices[0] ?? 0]
+          : "";
+    return { ...base, type, acceptedAnswers: [correctChoice ?? ""], maxTypos: 0 };
+  }
+  if (type === "true_false") {
+    return { ...base, type, correctIndex: q.type === "single" && q.correctIndex === 1 ? 1 : 0 };
+  }
+  if (type === "multi") {
+    const correct = q.type === "single" ? q.correctIndex : 0;
+    return { ...base, type, choices, correctIndices: [correct] };
+  }
+  const correct = q.type === "multi" ? (q.correctIndices[0] ?? 0) : 0;
+  return { ...base, type, choices, correctIndex: correct };
+}
+
 export function clampTimerSeconds(value: number): number {
   if (!Number.isFinite(value)) return 10;
   const rounded = Math.round(value);
   return Math.min(300, Math.max(5, rounded));
 }
 
-export function normalizeQuestion(input: QuizQuestion): QuizQuestion {
+function finiteOr(value: number, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+/** Keeps every choice, even past `MAX_CHOICES`, so validation can report too many. */
+function normalizeChoices(choices: readonly string[] | undefined): string[] {
+  return (choices ?? []).map((c) => String(c ?? "").trim().slice(0, 80));
+}
+
+/** Keeps only valid upload names, and choice images only for choices that exist. */
+function normalizeImages(q: QuizQuestion, input: QuizQuestion): QuizQuestion {
+  const image = isUploadName(input.image) ? input.image : undefined;
+  const choiceCount = hasEditableChoices(q) ? q.choices.length : 0;
+  const choiceImages = (Array.isArray(input.choiceImages) ? input.choiceImages : [])
+    .slice(0, choiceCount)
+    .map((name) => (isUploadName(name) ? name : ""));
   return {
-    ...input,
+    ...q,
+    ...(image ? { image } : {}),
+    ...(choiceImages.some(Boolean) ? { choiceImages } : {}),
+  };
+}
+
+export function normalizeQuestion(input: QuizQuestion): QuizQuestion {
+  return normalizeImages(normalizeQuestionFields(input), input);
+}
+
+function normalizeQuestionFields(input: QuizQuestion): QuizQuestion {
+  const base = {
+    id: input.id,
     text: input.text.trim().slice(0, 200),
-    choices: [
-      input.choices[0].trim().slice(0, 80),
-      input.choices[1].trim().slice(0, 80),
-      input.choices[2].trim().slice(0, 80),
-      input.choices[3].trim().slice(0, 80),
-    ],
     timerSeconds: clampTimerSeconds(input.timerSeconds),
+    pointsMultiplier: pointsMultiplier(input),
   };
+  const type = questionType(input);
+
+  if (type === "word_cloud") return { ...base, type };
+
+  if (type === "poll") {
+    const q = input as PollQuestion;
+    return { ...base, type, choices: normalizeChoices(q.choices) };
+  }
+
+  if (type === "slider") {
+    const q = input as SliderQuestion;
+    const min = finiteOr(q.min, 0);
+    const max = finiteOr(q.max, 100);
+    return {
+      ...base,
+      type,
+      min,
+      max,
+      step: finiteOr(q.step, 1),
+      correctValue: finiteOr(q.correctValue, min),
+      tolerance: Math.max(0, finiteOr(q.tolerance, 0)),
+      unit: String(q.unit ?? "").trim().slice(0, 8),
+    };
+  }
+
+  if (type === "type_answer") {
+    const q = input as TypeAnswerQuestion;
+    const acceptedAnswers = (q.acceptedAnswers ?? [])
+      .slice(0, MAX_ACCEPTED_ANSWERS)
+      .map((a) => String(a ?? "").trim().slice(0, 80));
+    return { ...base, type, acceptedAnswers, maxTypos: clampMaxTypos(q.maxTypos) };
+  }
+
+  if (type === "true_false") {
+    const q = input as TrueFalseQuestion;
+    return { ...base, type, correctIndex: q.correctIndex === 1 ? 1 : 0 };
+  }
+
+  if (type === "multi") {
+    const q = input as MultiSelectQuestion;
+    const choices = normalizeChoices(q.choices);
+    const correctIndices = Array.from(new Set(q.correctIndices ?? []))
+      .filter((i) => Number.isInteger(i) && i >= 0 && i < choices.length)
+      .sort((a, b) => a - b);
+    return { ...base, type, choices, correctIndices };
+  }
+
+  const q = input as SingleChoiceQuestion;
+  return { ...base, type, choices: normalizeChoices(q.choices), correctIndex: q.correctIndex };
 }
 
-export function validateQuestion(input: QuizQuestion): string | null {
+/** What is wrong with one field of a quiz, e.g. `questions[2].choices`. */
+export type QuizFieldError = { field: string; message: string };
+
+/** Where the WS server puts a slider answer before grading it: the nearest step from `min`. */
+function snapToSliderStep(value: number, { min, step }: Pick<SliderQuestion, "min" | "step">) {
+  const decimals = (String(step).split(".")[1] ?? "").length;
+  return Number((min + Math.round((value - min) / step) * step).toFixed(decimals));
+}
+
+function questionError(input: QuizQuestion): QuizFieldError | null {
   const q = normalizeQuestion(input);
-  if (!q.text) return "Question text is required";
-  if (q.choices.some((c) => !c)) return "All 4 choices are required";
-  if (![0, 1, 2, 3].includes(q.correctIndex)) return "Select a correct choice";
-  if (q.timerSeconds < 5 || q.timerSeconds > 300) return "Timer must be 5–300s";
+  if (!q.text) return { field: "text", message: "Question text is required" };
+  if (hasEditableChoices(q)) {
+    if (q.choices.length < MIN_CHOICES || q.choices.length > MAX_CHOICES) {
+      return { field: "choices", message: `Use ${MIN_CHOICES}–${MAX_CHOICES} choices` };
+    }
+    if (q.choices.some((c) => !c)) return { field: "choices", message: "All choices are required" };
+  }
+  if (q.type === "slider") {
+    if (q.max <= q.min) return { field: "max", message: "Max must be greater than min" };
+    if (q.step <= 0 || q.step > q.max - q.min) {
+      return { field: "step", message: "Step must be between 0 and the range" };
+    }
+    if ((q.max - q.min) / q.step > 10000) {
+      return { field: "step", message: "Step is too small for this range" };
+    }
+    if (q.correctValue < q.min || q.correctValue > q.max) {
+      return { field: "correctValue", message: "Correct value must be between min and max" };
+    }
+    // Answers are snapped to the step, so an off-step correct value could never be hit exactly.
+    if (snapToSliderStep(q.correctValue, q) !== q.correctValue) {
+      return { field: "correctValue", message: "Correct value must be min plus a whole number of steps" };
+    }
+  } else if (q.type === "type_answer") {
+    if (!q.acceptedAnswers.length) {
+      return { field: "acceptedAnswers", message: "Add at least one accepted answer" };
+    }
+    if (q.acceptedAnswers.some((a) => !a)) {
+      return { field: "acceptedAnswers", message: "Accepted answers cannot be empty" };
+    }
+  } else if (q.type === "multi") {
+    if (!q.correctIndices.length) {
+      return { field: "correctIndices", message: "Select at least one correct choice" };
+    }
+  } else if (q.type === "poll" || q.type === "word_cloud") {
+    // Ungraded: nothing to mark as correct.
+  } else if (
+    !Number.isInteger(q.correctIndex) ||
+    q.correctIndex < 0 ||
+    q.correctIndex >= questionChoices(q).length
+  ) {
+    return { field: "correctIndex", message: "Select a correct choice" };
+  }
+  if (q.timerSeconds < 5 || q.timerSeconds > 300) {
+    return { field: "timerSeconds", message: "Timer must be 5–300s" };
+  }
   return null;
 }
 
+export function validateQuestion(input: QuizQuestion): string | null {
+  return questionError(input)?.message ?? null;
+}
+
 export function normalizeQuizDraft(input: QuizDraft): QuizDraft {
   return {
     topic: input.topic.trim().slice(0, 80),
     questions: (input.questions ?? []).map((q) => normalizeQuestion(q)),
+    scoring: normalizeScoring(input.scoring),
+    shuffle: normalizeShuffle(input.shuffle),
   };
 }
 
-export function validateQuizDraft(input: QuizDraft): string | null {
-  const draft = normalizeQuizDraft(input);
-  if (!draft.topic) return "Topic is required";
-  if (!draft.questions.length) return "At least 1 question is required";
-  for (const q of draft.questions) {
-    const err = validateQuestion(q);
-    if (err) return err;
+function isObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isListOf<T>(value: unknown, item: (v: unknown) => v is T): value is T[] {
+  return Array.isArray(value) && value.every(item);
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+/**
+ * Checks that a question from outside (an API body or an imported file, say) has the fields
+ * its type needs, each of the right kind, before it is normalized. Unknown fields are ignored.
+ */
+export function questionShapeErrors(input: unknown, path: string): QuizFieldError[] {
+  if (!isObject(input)) return [{ field: path, message: "Must be a question" }];
+  const errors: QuizFieldError[] = [];
+  const expect = (ok: boolean, field: string, message: string) => {
+    if (!ok) errors.push({ field: `${path}.${field}`, message });
+  };
+
+  expect(isString(input.id) && input.id.length > 0, "id", "Question ID is required");
+  expect(isString(input.text), "text", "Question text must be text");
+  expect(isFiniteNumber(input.timerSeconds), "timerSeconds", "Timer must be a number");
+  expect(
+    input.type === undefined || (isString(input.type) && Object.hasOwn(QUESTION_TYPE_LABELS, input.type)),
+    "type",
+    "Unknown question type",
+  );
+  expect(
+    input.pointsMultiplier === undefined || [0, 1, 2].includes(input.pointsMultiplier as number),
+    "pointsMultiplier",
+    "Points must be 0, 1 or 2 times",
+  );
+  expect(input.image === undefined || isUploadName(input.image), "image", "Not an uploaded image");
+  expect(
+    input.choiceImages === undefined ||
+      isListOf(input.choiceImages, (v): v is string => v === "" || isUploadName(v)),
+    "choiceImages",
+    "Not a list of uploaded images",
+  );
+
+  const type = questionType(input as Pick<QuizQuestion, "type">);
+  if (type === "single" || type === "multi" || type === "poll") {
+    expect(isListOf(input.choices, isString), "choices", "Choices must be a list of text");
   }
-  return null;
+  if (type === "single" || type === "true_false") {
+    expect(Number.isInteger(input.correctIndex), "correctIndex", "Select a correct choice");
+  }
+  if (type === "multi") {
+    expect(
+      isListOf(input.correctIndices, Number.isInteger as (v: unknown) => v is number),
+      "correctIndices",
+      "Correct choices must be a list of choice numbers",
+    );
+  }
+  if (type === "type_answer") {
+    expect(
+      isListOf(input.acceptedAnswers, isString),
+      "acceptedAnswers",
+      "Accepted answers must be a list of text",
+    );
+    expect(isFiniteNumber(input.maxTypos), "maxTypos", "Allowed typos must be a number");
+  }
+  if (type === "slider") {
+    for (const field of ["min", "max", "step", "correctValue", "tolerance"]) {
+      expect(isFiniteNumber(input[field]), field, "Must be a number");
+    }
+    expect(input.unit === undefined || isString(input.unit), "unit", "Unit must be text");
+  }
+  return errors;
+}
+
+function isFlags(value: unknown, keys: readonly string[]) {
+  if (value === undefined) return true;
+  return isObject(value) && keys.every((k) => value[k] === undefined || typeof value[k] === "boolean");
+}
+
+/**
+ * Every problem with a quiz, each tied to the field it is in (`topic`, `questions[1].text`).
+ * Takes anything, so the API can check a request body before trusting it as a `QuizDraft`.
+ */
+export function quizDraftErrors(input: unknown): QuizFieldError[] {
+  if (!isObject(input)) return [{ field: "quiz", message: "Quiz is required" }];
+
+  const errors: QuizFieldError[] = [];
+  if (!isString(input.topic)) errors.push({ field: "topic", message: "Topic must be text" });
+  if (!Array.isArray(input.questions)) {
+    errors.push({ field: "questions", message: "Questions must be a list" });
+  } else {
+    input.questions.forEach((q, i) => errors.push(...questionShapeErrors(q, `questions[${i}]`)));
+  }
+  if (!isFlags(input.scoring, Object.keys(DEFAULT_SCORING))) {
+    errors.push({ field: "scoring", message: "Scoring options must be on or off" });
+  }
+  if (!isFlags(input.shuffle, Object.keys(DEFAULT_SHUFFLE))) {
+    errors.push({ field: "shuffle", message: "Shuffle options must be on or off" });
+  }
+  if (errors.length) return errors;
+
+  const draft = normalizeQuizDraft(input as QuizDraft);
+  if (!draft.topic) errors.push({ field: "topic", message: "Topic is required" });
+  if (!draft.questions.length) {
+    errors.push({ field: "questions", message: "At least 1 question is required" });
+  }
+  draft.questions.forEach((q, i) => {
+    const err = questionError(q);
+    if (err) errors.push({ field: `questions[${i}].${err.field}`, message: err.message });
+  });
+  return errors;
+}
+
+export function validateQuizDraft(input: QuizDraft): string | null {
+  return quizDraftErrors(input)[0]?.message ?? null;
 }
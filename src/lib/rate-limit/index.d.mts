@@ -0,0 +1,20 @@
+export type RateLimiter = {
+  /** Seconds until `key` may try again, or 0 if it may now. */
+  retryAfter(key: string, now?: number): number;
+  /** Counts one attempt against `key`. */
+  hit(key: string, now?: number): void;
+};
+
+export declare function createRateLimiter(options: { limit: number; windowMs: number }): RateLimiter;
+
+/** Unknown PINs one address may try in a window; known PINs never count. */
+export declare const PIN_MISS_LIMIT: { limit: number; windowMs: number };
+
+/**
+ * The address a request came from, trusting X-Forwarded-For only as far as
+ * `TRUSTED_PROXY_HOPS` (or `hops`) proxies wrote it.
+ */
+export declare function clientAddress(
+  request: { forwardedFor?: string | null; remoteAddress?: string | null },
+  hops?: number,
+): string;
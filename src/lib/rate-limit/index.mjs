@@ -0,0 +1,57 @@
+// Limits on guessing room PINs, shared by the Next API and server/ws-server.mjs. Each process
+// keeps its own counts in memory.
+
+/**
+ * Counts attempts per key (a client address) in fixed windows. Once a key reaches `limit`
+ * attempts it has to wait for its window to end.
+ */
+export function createRateLimiter({ limit, windowMs }) {
+  /** @type {Map<string, { count: number, resetAt: number }>} */
+  const windows = new Map();
+
+  function prune(now) {
+    for (const [key, entry] of windows) {
+      if (entry.resetAt <= now) windows.delete(key);
+    }
+  }
+
+  return {
+    retryAfter(key, now = Date.now()) {
+      const entry = windows.get(key);
+      if (!entry || entry.resetAt <= now || entry.count < limit) return 0;
+      return Math.ceil((entry.resetAt - now) / 1000);
+    },
+    hit(key, now = Date.now()) {
+      const entry = windows.get(key);
+      if (entry && entry.resetAt > now) {
+        entry.count += 1;
+        return;
+      }
+      if (windows.size >= 10_000) prune(now);
+      windows.set(key, { count: 1, resetAt: now + windowMs });
+    },
+  };
+}
+
+/** Unknown PINs one address may try in a window; known PINs never count. */
+export const PIN_MISS_LIMIT = { limit: 20, windowMs: 10 * 60 * 1000 };
+
+/**
+ * The address a request came from. Behind `TRUSTED_PROXY_HOPS` reverse proxies, it is the
+ * X-Forwarded-For entry the outermost of them added; entries further left were written by
+ * the client and are ignored. With no proxies configured the header isn't trusted at all.
+ */
+export function clientAddress(
+  { forwardedFor, remoteAddress },
+  hops = Number(process.env.TRUSTED_PROXY_HOPS) || 0,
+) {
+  if (hops > 0 && forwardedFor) {
+    const entries = forwardedFor
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const entry = entries[entries.length - hops];
+    if (entry) return entry;
+  }
+  return remoteAddress || "unknown";
+}
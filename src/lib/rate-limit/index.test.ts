@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { clientAddress, createRateLimiter } from "@/lib/rate-limit/index.mjs";
+
+describe("createRateLimiter", () => {
+  it("blocks a key once it reaches the limit, until its window ends", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 10_000 });
+    expect(limiter.retryAfter("a", 0)).toBe(0);
+    limiter.hit("a", 0);
+    expect(limiter.retryAfter("a", 1000)).toBe(0);
+    limiter.hit("a", 1000);
+    expect(limiter.retryAfter("a", 1000)).toBe(9);
+    expect(limiter.retryAfter("b", 1000)).toBe(0);
+    expect(limiter.retryAfter("a", 10_000)).toBe(0);
+  });
+
+  it("starts a new window after the old one ends", () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+    limiter.hit("a", 0);
+    limiter.hit("a", 1000);
+    expect(limiter.retryAfter("a", 1500)).toBe(1);
+  });
+});
+
+describe("clientAddress", () => {
+  it("ignores X-Forwarded-For unless proxies are trusted", () => {
+    expect(clientAddress({ forwardedFor: "1.1.1.1", remoteAddress: "10.0.0.1" }, 0)).toBe("10.0.0.1");
+    expect(clientAddress({ forwardedFor: "1.1.1.1" }, 0)).toBe("unknown");
+  });
+
+  it("takes the entry the outermost trusted proxy added", () => {
+    const forwardedFor = "6.6.6.6, 2.2.2.2, 10.0.0.2";
+    expect(clientAddress({ forwardedFor, remoteAddress: "10.0.0.1" }, 1)).toBe("10.0.0.2");
+    expect(clientAddress({ forwardedFor, remoteAddress: "10.0.0.1" }, 2)).toBe("2.2.2.2");
+    expect(clientAddress({ forwardedFor: "2.2.2.2", remoteAddress: "10.0.0.1" }, 2)).toBe("10.0.0.1");
+  });
+});
@@ -0,0 +1,84 @@
+import { getStorage } from "@/lib/app-storage";
+import type { QuestionType } from "@/lib/quiz";
+
+/** One player's answer as saved by the WS server when the game ended. */
+export type SessionAnswer = {
+  playerId: string;
+  nickname: string;
+  choiceIndex?: number;
+  choiceIndices?: number[];
+  text?: string;
+  value?: number;
+  graded: boolean;
+  correct: boolean;
+  credit: number;
+  delta: number;
+  /** Time from the question opening to the answer arriving. */
+  elapsedMs: number;
+};
+
+export type SessionQuestion = {
+  index: number;
+  text: string;
+  questionType: QuestionType;
+  choices: string[];
+  /** The correct answer; null for polls and word clouds. */
+  reveal: {
+    correctIndices?: number[];
+    acceptedAnswers?: string[];
+    correctValue?: number;
+    unit?: string;
+  } | null;
+  answers: SessionAnswer[];
+};
+
+export type SessionPlayer = { id: string; nickname: string; team?: string; score: number };
+
+export type SessionResult = {
+  id: string;
+  pin: string;
+  title: string;
+  startedAt: string;
+  endedAt: string;
+  /** The host ended the game before the last question. */
+  endedEarly: boolean;
+  totalQuestions: number;
+  /** Final ranking, best first. */
+  players: SessionPlayer[];
+  teamLeaderboard: Array<{ team: string; score: number; players: number }> | null;
+  /** Only the questions that were actually asked. */
+  questions: SessionQuestion[];
+};
+
+export type SessionSummary = Pick<
+  SessionResult,
+  "id" | "title" | "startedAt" | "endedAt" | "endedEarly" | "totalQuestions"
+> & {
+  playerCount: number;
+  questionCount: number;
+  winner: SessionPlayer | null;
+};
+
+/** Every saved session for a room, oldest first. */
+export async function readSessions(pin: string): Promise<SessionResult[]> {
+  return (await getStorage()).listResults(pin);
+}
+
+export async function findSession(pin: string, id: string): Promise<SessionResult | null> {
+  const sessions = await readSessions(pin);
+  return sessions.find((s) => s.id === id) ?? null;
+}
+
+export function summarizeSession(session: SessionResult): SessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    endedEarly: session.endedEarly,
+    totalQuestions: session.totalQuestions,
+    playerCount: session.players.length,
+    questionCount: session.questions.length,
+    winner: session.players[0] ?? null,
+  };
+}
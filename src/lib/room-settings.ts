@@ -0,0 +1,94 @@
+export type TeamScoring = "average" | "total";
+
+export const TEAM_SCORING_LABELS: Record<TeamScoring, string> = {
+  average: "Average per player",
+  total: "Total of all players",
+};
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 8;
+/** The highest player limit a room can set; 0 means no limit. */
+export const PLAYER_LIMIT = 1000;
+
+/** What happens to someone joining after the first question: play, only watch, or be turned away. */
+export type LateJoinPolicy = "allow" | "spectate" | "reject";
+
+export const LATE_JOIN_LABELS: Record<LateJoinPolicy, string> = {
+  allow: "Let them play",
+  spectate: "Let them watch until the next game",
+  reject: "Turn them away",
+};
+
+/** Why a room isn't taking new players right now; also the WS server's error codes for it. */
+export type JoinBlock = "ROOM_LOCKED" | "ROOM_FULL" | "GAME_IN_PROGRESS";
+
+export const JOIN_BLOCK_MESSAGES: Record<JoinBlock, string> = {
+  ROOM_LOCKED: "The host has locked this game. Ask them to unlock it, then try again.",
+  ROOM_FULL: "This game is full.",
+  GAME_IN_PROGRESS: "This game has already started and isn't taking late joiners.",
+};
+
+/** How a room runs its games; stored on the room next to its quiz. */
+export type RoomSettings = {
+  /** End a question as soon as every connected player has answered. */
+  autoAdvance: boolean;
+  /** Players join one of `teams` and a team leaderboard is shown next to the player one. */
+  teamMode: boolean;
+  teams: string[];
+  /** Averaging keeps a small team competitive against a big one. */
+  teamScoring: TeamScoring;
+  /** Refuse nicknames with offensive words; reserved names are refused either way. */
+  filterNicknames: boolean;
+  /** New players wait until the host admits them. */
+  approvePlayers: boolean;
+  /** Most players the room takes at once; 0 for no limit. */
+  maxPlayers: number;
+  lateJoin: LateJoinPolicy;
+  /** Show the room's PIN on the home page; rooms are private unless a host lists them. */
+  listed: boolean;
+};
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  autoAdvance: false,
+  teamMode: false,
+  teams: ["Team A", "Team B"],
+  teamScoring: "average",
+  filterNicknames: true,
+  approvePlayers: false,
+  maxPlayers: 0,
+  lateJoin: "allow",
+  listed: false,
+};
+
+export function normalizeTeamNames(names: readonly string[] | undefined): string[] {
+  const cleaned = (names ?? []).map((n) => String(n ?? "").trim().slice(0, 24)).filter(Boolean);
+  return Array.from(new Set(cleaned)).slice(0, MAX_TEAMS);
+}
+
+export function clampMaxPlayers(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(PLAYER_LIMIT, Math.max(0, Math.round(value)));
+}
+
+export function normalizeRoomSettings(input?: Partial<RoomSettings> | null): RoomSettings {
+  const teams = normalizeTeamNames(input?.teams);
+  return {
+    autoAdvance: input?.autoAdvance === true,
+    teamMode: input?.teamMode === true && teams.length >= MIN_TEAMS,
+    teams,
+    teamScoring: input?.teamScoring === "total" ? "total" : "average",
+    filterNicknames: input?.filterNicknames !== false,
+    approvePlayers: input?.approvePlayers === true,
+    maxPlayers: clampMaxPlayers(Number(input?.maxPlayers)),
+    lateJoin:
+      input?.lateJoin && Object.hasOwn(LATE_JOIN_LABELS, input.lateJoin) ? input.lateJoin : "allow",
+    listed: input?.listed === true,
+  };
+}
+
+export function validateRoomSettings(input: RoomSettings): string | null {
+  if (input.teamMode && normalizeTeamNames(input.teams).length < MIN_TEAMS) {
+    return `Team mode needs at least ${MIN_TEAMS} team names`;
+  }
+  return null;
+}
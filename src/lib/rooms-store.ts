@@ -1,98 +1,189 @@
-import { promises as fs } from "node:fs";
-import path from "node:path";
+import { getStorage } from "@/lib/app-storage";
+import { migrateRecord } from "@/lib/storage/index.mjs";
 import type { QuizDraft } from "@/lib/quiz";
+import { normalizeRoomSettings, type RoomSettings } from "@/lib/room-settings";
 
+/** A saved quiz in the library; hosting it creates a `RoomRecord` with a fresh PIN. */
+export type QuizRecord = {
+  id: string;
+  title: string;
+  /** Needed to edit or host the quiz. */
+  hostKey: string;
+  quiz: QuizDraft;
+  settings?: RoomSettings;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+/**
+ * A game session players join by PIN. Sessions hosted from the library point at their
+ * quiz with `quizId` and stop accepting players after `expiresAt`; older rooms carry the
+ * quiz inline and never expire. A library session edited from its host link keeps its own
+ * copy of the quiz inline, which takes the place of the library's.
+ */
 export type RoomRecord = {
   pin: string;
   title: string;
   hostKey?: string;
+  quizId?: string;
   quiz?: QuizDraft;
+  settings?: RoomSettings;
   createdAt?: string;
   updatedAt?: string;
+  expiresAt?: string;
 };
 
-export type RoomsFile = {
-  rooms: RoomRecord[];
-};
+/** How long a hosted session's PIN stays joinable. */
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
 
-function roomsFilePath() {
-  return path.join(process.cwd(), "src", "data", "rooms.json");
+export function isRoomExpired(room: RoomRecord, now = Date.now()) {
+  return Boolean(room.expiresAt) && Date.parse(room.expiresAt!) <= now;
 }
 
-export async function readRoomsFile(): Promise<RoomsFile> {
-  const filePath = roomsFilePath();
-  try {
-    const raw = await fs.readFile(filePath, "utf8");
-    const parsed = JSON.parse(raw) as Partial<RoomsFile>;
-    const rooms = Array.isArray(parsed.rooms) ? parsed.rooms : [];
-    return { rooms: rooms as RoomRecord[] };
-  } catch {
-    return { rooms: [] };
-  }
+/** Fills in the quiz and settings of a session hosted from the library, unless it has its own. */
+function resolveRoom(room: RoomRecord, item: QuizRecord | null | undefined): RoomRecord {
+  return item && !room.quiz ? { ...room, quiz: item.quiz, settings: item.settings } : room;
 }
 
-export async function writeRoomsFile(data: RoomsFile): Promise<void> {
-  const filePath = roomsFilePath();
-  const tmpPath = `${filePath}.tmp`;
-  const content = `${JSON.stringify(data, null, 2)}\n`;
-  await fs.writeFile(tmpPath, content, "utf8");
-  await fs.rename(tmpPath, filePath);
+/** Rooms that can still be joined. Records saved by older versions are upgraded as they load. */
+export async function listRooms(): Promise<RoomRecord[]> {
+  const storage = await getStorage();
+  const quizzes = new Map(storage.listQuizzes().map((q) => [q.id, migrateRecord(q)]));
+  return storage
+    .listRooms()
+    .filter((r) => !isRoomExpired(r))
+    .map((r) => resolveRoom(migrateRecord(r), r.quizId ? quizzes.get(r.quizId) : null));
 }
 
+/** Also finds expired sessions, so their host can still open past results. */
 export async function findRoomByPin(pin: string): Promise<RoomRecord | null> {
-  const { rooms } = await readRoomsFile();
-  return rooms.find((r) => r.pin === pin) ?? null;
+  const storage = await getStorage();
+  const room = storage.getRoom(pin);
+  if (!room) return null;
+  const item = room.quizId ? storage.getQuiz(room.quizId) : null;
+  return resolveRoom(migrateRecord(room), item && migrateRecord(item));
+}
+
+export async function findQuiz(id: string): Promise<QuizRecord | null> {
+  const item = (await getStorage()).getQuiz(id);
+  return item && migrateRecord(item);
 }
 
-export async function upsertRoom(params: {
+function makeKey(length: number) {
+  return crypto.randomUUID().replace(/-/g, "").slice(0, length);
+}
+
+export async function upsertQuiz(params: {
   title: string;
-  quiz?: QuizDraft;
-  pin?: string;
+  quiz: QuizDraft;
+  settings?: Partial<RoomSettings>;
+  id?: string;
   hostKey?: string;
-}): Promise<Required<Pick<RoomRecord, "pin" | "title" | "hostKey">>> {
+}): Promise<Pick<QuizRecord, "id" | "title" | "hostKey">> {
   const now = new Date().toISOString();
-  const data = await readRoomsFile();
+  const storage = await getStorage();
 
   const cleanTitle = params.title.trim().slice(0, 80) || "Untitled quiz";
 
-  if (params.pin) {
-    const idx = data.rooms.findIndex((r) => r.pin === params.pin);
-    if (idx < 0) throw new Error("PIN_NOT_FOUND");
-    const existing = data.rooms[idx]!;
-    if (!existing.hostKey || existing.hostKey !== params.hostKey) throw new Error("HOST_KEY_INVALID");
+  if (params.id) {
+    const existing = storage.getQuiz(params.id);
+    if (!existing) throw new Error("QUIZ_NOT_FOUND");
+    if (existing.hostKey !== params.hostKey) throw new Error("HOST_KEY_INVALID");
 
-    data.rooms[idx] = {
+    storage.saveQuiz({
       ...existing,
       title: cleanTitle,
-      quiz: params.quiz ?? existing.quiz,
+      quiz: params.quiz,
+      settings: params.settings ? normalizeRoomSettings(params.settings) : existing.settings,
       updatedAt: now,
-    };
-    await writeRoomsFile(data);
-    return { pin: existing.pin, title: cleanTitle, hostKey: existing.hostKey };
+    });
+    return { id: existing.id, title: cleanTitle, hostKey: existing.hostKey };
   }
 
-  const used = new Set(data.rooms.map((r) => r.pin));
+  let id = makeKey(10);
+  while (storage.getQuiz(id)) id = makeKey(10);
+  const hostKey = makeKey(16);
+
+  storage.saveQuiz({
+    id,
+    title: cleanTitle,
+    hostKey,
+    quiz: params.quiz,
+    settings: normalizeRoomSettings(params.settings),
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return { id, title: cleanTitle, hostKey };
+}
+
+/**
+ * Saves an edited quiz back to a room. A session hosted from the library gets its own copy:
+ * its host key only opens that session, so the library quiz and its other sessions are left
+ * as they are (the library quiz is edited with its own quiz key).
+ */
+export async function updateRoomQuiz(params: {
+  pin: string;
+  hostKey: string;
+  title: string;
+  quiz: QuizDraft;
+  settings?: Partial<RoomSettings>;
+}): Promise<Pick<RoomRecord, "pin" | "title">> {
+  const now = new Date().toISOString();
+  const storage = await getStorage();
+
+  const cleanTitle = params.title.trim().slice(0, 80) || "Untitled quiz";
+
+  const existing = storage.getRoom(params.pin);
+  if (!existing) throw new Error("PIN_NOT_FOUND");
+  if (!existing.hostKey || existing.hostKey !== params.hostKey) throw new Error("HOST_KEY_INVALID");
+
+  const item = existing.quizId && !existing.quiz ? storage.getQuiz(existing.quizId) : null;
+  const settings = existing.quiz ? existing.settings : item?.settings;
+  storage.saveRoom({
+    ...existing,
+    title: cleanTitle,
+    quiz: params.quiz,
+    settings: params.settings ? normalizeRoomSettings(params.settings) : settings,
+    updatedAt: now,
+  });
+
+  return { pin: existing.pin, title: cleanTitle };
+}
+
+/** Starts a new session of a library quiz under a fresh PIN with its own host key. */
+export async function createSession(params: {
+  quizId: string;
+  hostKey: string;
+}): Promise<Required<Pick<RoomRecord, "pin" | "title" | "hostKey" | "expiresAt">>> {
+  const now = Date.now();
+  const storage = await getStorage();
+
+  const item = storage.getQuiz(params.quizId);
+  if (!item) throw new Error("QUIZ_NOT_FOUND");
+  if (item.hostKey !== params.hostKey) throw new Error("HOST_KEY_INVALID");
+
+  // Expired PINs are not reused either, so a PIN's saved results always belong to one session.
   let pin = "";
   for (let attempt = 0; attempt < 20; attempt++) {
     const candidate = String(Math.floor(100000 + Math.random() * 900000));
-    if (!used.has(candidate)) {
+    if (!storage.getRoom(candidate)) {
       pin = candidate;
       break;
     }
   }
   if (!pin) throw new Error("PIN_GENERATION_FAILED");
 
-  const hostKey = crypto.randomUUID().replace(/-/g, "").slice(0, 16);
-
-  data.rooms.push({
+  const room = {
     pin,
-    title: cleanTitle,
-    hostKey,
-    quiz: params.quiz,
-    createdAt: now,
-    updatedAt: now,
-  });
+    title: item.title,
+    hostKey: makeKey(16),
+    quizId: item.id,
+    createdAt: new Date(now).toISOString(),
+    updatedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+  };
+  storage.saveRoom(room);
 
-  await writeRoomsFile(data);
-  return { pin, title: cleanTitle, hostKey };
+  return { pin, title: room.title, hostKey: room.hostKey, expiresAt: room.expiresAt };
 }
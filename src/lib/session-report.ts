@@ -0,0 +1,50 @@
+import type { SessionAnswer, SessionQuestion, SessionResult } from "@/lib/results-store";
+
+export type ReportCell = string | number;
+
+export function formatChoice(question: SessionQuestion, idx: number) {
+  return `${String.fromCharCode(65 + idx)}. ${question.choices[idx] ?? ""}`;
+}
+
+export function formatSessionAnswer(question: SessionQuestion, answer: SessionAnswer) {
+  if (typeof answer.choiceIndex === "number") return formatChoice(question, answer.choiceIndex);
+  if (answer.choiceIndices) return answer.choiceIndices.map((i) => formatChoice(question, i)).join(", ");
+  if (typeof answer.value === "number") return `${answer.value}${question.reveal?.unit ?? ""}`;
+  return answer.text ?? "";
+}
+
+export function formatSessionReveal(question: SessionQuestion) {
+  const reveal = question.reveal;
+  if (!reveal) return "No correct answer (not scored)";
+  if (reveal.correctIndices) return reveal.correctIndices.map((i) => formatChoice(question, i)).join(", ");
+  if (reveal.acceptedAnswers) return reveal.acceptedAnswers.join(" / ");
+  return `${reveal.correctValue ?? ""}${reveal.unit ?? ""}`;
+}
+
+/** One row per player, best first, with a header row; used by the CSV and XLSX exports. */
+export function sessionPlayerRows(session: SessionResult): ReportCell[][] {
+  const withTeams = session.players.some((p) => p.team);
+  const header: ReportCell[] = [
+    "Rank",
+    "Nickname",
+    ...(withTeams ? ["Team"] : []),
+    "Score",
+    "Correct",
+    ...session.questions.map((q) => `Q${q.index + 1}. ${q.text}`),
+  ];
+
+  const rows = session.players.map((player, idx) => {
+    const answers = session.questions.map((q) => q.answers.find((a) => a.playerId === player.id));
+    const correct = answers.filter((a) => a?.correct).length;
+    return [
+      idx + 1,
+      player.nickname,
+      ...(withTeams ? [player.team ?? ""] : []),
+      player.score,
+      correct,
+      ...answers.map((a, qIdx) => (a ? formatSessionAnswer(session.questions[qIdx], a) : "")),
+    ];
+  });
+
+  return [header, ...rows];
+}
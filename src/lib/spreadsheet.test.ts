@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "@/lib/csv";
+import { toCsv } from "@/lib/spreadsheet";
+
+describe("toCsv", () => {
+  it("keeps player-typed formulas from running in the HR export", () => {
+    const csv = toCsv([
+      ["Nickname", "Score"],
+      ["=HYPERLINK(\"http://evil\",\"x\")", 100],
+      ["@SUM(A1:A9)", -50],
+    ]);
+    expect(parseCsv(csv)).toEqual([
+      ["Nickname", "Score"],
+      ["'=HYPERLINK(\"http://evil\",\"x\")", "100"],
+      ["'@SUM(A1:A9)", "-50"],
+    ]);
+  });
+});
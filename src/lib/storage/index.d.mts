@@ -0,0 +1,40 @@
+import type { QuizRecord, RoomRecord } from "@/lib/rooms-store";
+import type { SessionResult } from "@/lib/results-store";
+
+export type StorageBackend = "json" | "sqlite";
+
+export declare const STORAGE_BACKENDS: StorageBackend[];
+
+/** The shape quizzes and rooms are saved in; older records are upgraded when loaded. */
+export declare const SCHEMA_VERSION: number;
+
+/** Upgrades a quiz, or a room with an inline quiz, saved under an older schema. */
+export declare function migrateRecord<T extends QuizRecord | RoomRecord>(record: T): T;
+
+/**
+ * Where quizzes, rooms (game sessions) and finished games' results are kept. Shared by the
+ * Next API and the WS server. Calls are synchronous, like better-sqlite3, so the WS server
+ * can handle a message without other messages getting in between.
+ */
+export interface DataStore {
+  readonly backend: StorageBackend;
+  listQuizzes(): QuizRecord[];
+  getQuiz(id: string): QuizRecord | null;
+  /** Adds the quiz, or replaces the one with the same ID. */
+  saveQuiz(quiz: QuizRecord): void;
+  /** Every room, expired sessions included. */
+  listRooms(): RoomRecord[];
+  getRoom(pin: string): RoomRecord | null;
+  /** Adds the room, or replaces the one with the same PIN. */
+  saveRoom(room: RoomRecord): void;
+  /** A room's saved games, oldest first. */
+  listResults(pin: string): SessionResult[];
+  /** Adds a finished game, or replaces the one with the same ID. */
+  addResult(result: SessionResult): void;
+  close(): void;
+}
+
+export declare function openStorage(options: {
+  dataDir: string;
+  backend?: string;
+}): Promise<DataStore>;
@@ -0,0 +1,21 @@
+import path from "node:path";
+import { createJsonStorage } from "./json-storage.mjs";
+
+export { SCHEMA_VERSION, migrateRecord } from "./migrations.mjs";
+
+export const STORAGE_BACKENDS = ["json", "sqlite"];
+
+/**
+ * Opens a storage backend: `backend` if given, otherwise `STORAGE_BACKEND` ("json", the
+ * default, or "sqlite"). `dataDir` holds rooms.json and results/ for the JSON backend and,
+ * unless `SQLITE_PATH` says otherwise, the SQLite database.
+ */
+export async function openStorage({ dataDir, backend }) {
+  const name = (backend ?? process.env.STORAGE_BACKEND)?.trim() || "json";
+  if (name === "json") return createJsonStorage(dataDir);
+  if (name === "sqlite") {
+    const { createSqliteStorage } = await import("./sqlite-storage.mjs");
+    return createSqliteStorage(process.env.SQLITE_PATH?.trim() || path.join(dataDir, "kahoot.sqlite"));
+  }
+  throw new Error(`Unknown storage backend "${name}"; use one of ${STORAGE_BACKENDS.join(", ")}`);
+}
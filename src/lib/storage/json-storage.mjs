@@ -0,0 +1,112 @@
+import { mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { SCHEMA_VERSION, migrateRecord } from "./migrations.mjs";
+
+function writeJsonFile(file, data) {
+  const tmpFile = `${file}.tmp`;
+  writeFileSync(tmpFile, `${JSON.stringify(data, null, 2)}\n`, "utf8");
+  renameSync(tmpFile, file);
+}
+
+function isRecord(value) {
+  return Boolean(value) && typeof value === "object";
+}
+
+/** Finds a room by PIN, allowing for stray whitespace in hand-edited files. */
+function samePin(room, pin) {
+  return typeof room?.pin === "string" && room.pin.trim() === pin;
+}
+
+/**
+ * Quizzes and rooms in `rooms.json`, each room's results in `results/<pin>.json`.
+ * The rooms file is parsed again only when it changes on disk, since the Next server
+ * and the WS server both write to it. Records are returned as stored; every write
+ * upgrades the whole file to `SCHEMA_VERSION`.
+ */
+export function createJsonStorage(dataDir) {
+  const roomsFile = path.join(dataDir, "rooms.json");
+  const resultsDir = path.join(dataDir, "results");
+  let cache = null;
+
+  function readRoomsFile() {
+    let stat;
+    try {
+      stat = statSync(roomsFile);
+    } catch {
+      return { quizzes: [], rooms: [] };
+    }
+    if (!cache || cache.mtimeMs !== stat.mtimeMs || cache.size !== stat.size) {
+      const parsed = JSON.parse(readFileSync(roomsFile, "utf8"));
+      if (Number(parsed?.schemaVersion) > SCHEMA_VERSION) {
+        throw new Error(
+          `${roomsFile} was saved by a newer version of the app (schema ${parsed.schemaVersion})`,
+        );
+      }
+      cache = {
+        mtimeMs: stat.mtimeMs,
+        size: stat.size,
+        data: {
+          quizzes: Array.isArray(parsed?.quizzes) ? parsed.quizzes.filter(isRecord) : [],
+          rooms: Array.isArray(parsed?.rooms) ? parsed.rooms.filter(isRecord) : [],
+        },
+      };
+    }
+    // Callers may change what they get back; the cache must not change with it.
+    return structuredClone(cache.data);
+  }
+
+  function writeRoomsFile(data) {
+    writeJsonFile(roomsFile, {
+      schemaVersion: SCHEMA_VERSION,
+      quizzes: data.quizzes.map(migrateRecord),
+      rooms: data.rooms.map(migrateRecord),
+    });
+    cache = null;
+  }
+
+  function resultsFile(pin) {
+    // PINs come from the rooms file, but never let one escape the results folder.
+    if (!/^[\w-]+$/.test(pin)) throw new Error("PIN_INVALID");
+    return path.join(resultsDir, `${pin}.json`);
+  }
+
+  function listResults(pin) {
+    try {
+      const parsed = JSON.parse(readFileSync(resultsFile(pin), "utf8"));
+      return Array.isArray(parsed?.sessions) ? parsed.sessions : [];
+    } catch {
+      return [];
+    }
+  }
+
+  return {
+    backend: "json",
+    listQuizzes: () => readRoomsFile().quizzes,
+    getQuiz: (id) => readRoomsFile().quizzes.find((q) => q.id === id) ?? null,
+    saveQuiz(quiz) {
+      const data = readRoomsFile();
+      const idx = data.quizzes.findIndex((q) => q.id === quiz.id);
+      if (idx >= 0) data.quizzes[idx] = quiz;
+      else data.quizzes.push(quiz);
+      writeRoomsFile(data);
+    },
+    listRooms: () => readRoomsFile().rooms,
+    getRoom: (pin) => readRoomsFile().rooms.find((r) => samePin(r, pin)) ?? null,
+    saveRoom(room) {
+      const data = readRoomsFile();
+      const idx = data.rooms.findIndex((r) => samePin(r, room.pin));
+      if (idx >= 0) data.rooms[idx] = room;
+      else data.rooms.push(room);
+      writeRoomsFile(data);
+    },
+    listResults,
+    addResult(result) {
+      const file = resultsFile(result.pin);
+      const sessions = listResults(result.pin).filter((s) => s?.id !== result.id);
+      sessions.push(result);
+      mkdirSync(resultsDir, { recursive: true });
+      writeJsonFile(file, { sessions });
+    },
+    close() {},
+  };
+}
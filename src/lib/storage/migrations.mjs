@@ -0,0 +1,42 @@
+// Upgrades quiz and room records saved by older versions of the app to the current shape.
+// Loaders run every record through these, so the rest of the code only sees current records.
+//
+// Version 1 (no `schemaVersion`): a quiz's topic was sometimes saved as `quiz.title`, and
+// questions could carry a stray `topic` or no `id`.
+// Version 2: `quiz.topic` always, questions always have an `id` and never a `topic`.
+
+/** The shape quizzes and rooms are saved in; written to rooms.json as `schemaVersion`. */
+export const SCHEMA_VERSION = 2;
+
+/**
+ * A question saved without an ID gets one made from its record and position rather than a
+ * random one: records are upgraded on every load, so the ID has to come out the same each time.
+ */
+function migrateQuestion(question, index, owner) {
+  if (!question || typeof question !== "object") return question;
+  const copy = { ...question };
+  delete copy.topic;
+  if (typeof copy.id !== "string" || !copy.id) copy.id = `legacy-${owner}-${index + 1}`;
+  return copy;
+}
+
+function migrateQuizDraft(quiz, owner) {
+  if (!quiz || typeof quiz !== "object") return quiz;
+  // `topic` goes first when it is added, as in quizzes saved by the editor.
+  const copy = { topic: "", ...quiz };
+  if (typeof quiz.topic !== "string") copy.topic = typeof quiz.title === "string" ? quiz.title : "";
+  delete copy.title;
+  copy.questions = Array.isArray(copy.questions)
+    ? copy.questions.map((question, index) => migrateQuestion(question, index, owner))
+    : [];
+  return copy;
+}
+
+/**
+ * Upgrades a quiz record, or a room that carries its quiz inline; rooms hosted from the
+ * library have no quiz of their own and come back unchanged. Safe to run on current records.
+ */
+export function migrateRecord(record) {
+  if (!record?.quiz) return record;
+  return { ...record, quiz: migrateQuizDraft(record.quiz, record.id ?? record.pin) };
+}
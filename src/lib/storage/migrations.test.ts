@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { QuizRecord, RoomRecord } from "@/lib/rooms-store";
+import { migrateRecord } from "@/lib/storage/index.mjs";
+
+describe("migrateRecord", () => {
+  it("upgrades a version 1 quiz", () => {
+    const legacy = {
+      id: "q1",
+      title: "Old",
+      hostKey: "k",
+      quiz: {
+        title: "Old topic",
+        questions: [{ text: "Pick A", topic: "stray", choices: ["A", "B"], correctIndex: 0, timerSeconds: 10 }],
+      },
+    } as unknown as QuizRecord;
+
+    const { quiz } = migrateRecord(legacy);
+    expect(Object.keys(quiz)[0]).toBe("topic");
+    expect(quiz.topic).toBe("Old topic");
+    expect(quiz).not.toHaveProperty("title");
+    expect(quiz.questions[0]).not.toHaveProperty("topic");
+    expect(quiz.questions[0]!.id).toBe("legacy-q1-1");
+  });
+
+  it("gives a question without an ID the same one on every load", () => {
+    const legacy = {
+      pin: "123456",
+      title: "Old",
+      quiz: { topic: "T", questions: [{ text: "A" }, { text: "B" }] },
+    } as unknown as RoomRecord;
+
+    const ids = migrateRecord(legacy).quiz!.questions.map((q) => q.id);
+    expect(ids).toEqual(["legacy-123456-1", "legacy-123456-2"]);
+    expect(migrateRecord(legacy).quiz!.questions.map((q) => q.id)).toEqual(ids);
+  });
+
+  it("keeps a current record as it is", () => {
+    const room: RoomRecord = {
+      pin: "123456",
+      title: "Room",
+      quiz: { topic: "T", questions: [{ id: "a", type: "true_false", text: "x", correctIndex: 0, timerSeconds: 10 }] },
+    };
+    expect(migrateRecord(room)).toEqual(room);
+  });
+
+  it("leaves rooms without a quiz of their own alone", () => {
+    const session: RoomRecord = { pin: "1", title: "Session", quizId: "q1" };
+    expect(migrateRecord(session)).toBe(session);
+  });
+
+  it("gives a quiz with no question list an empty one", () => {
+    const broken = { pin: "1", title: "x", quiz: { topic: "T" } } as unknown as RoomRecord;
+    expect(migrateRecord(broken).quiz?.questions).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import { SCHEMA_VERSION, migrateRecord } from "./migrations.mjs";
+
+// Records are kept whole as JSON; the other columns are what they are looked up by.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS quizzes (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS rooms (
+    pin TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS results (
+    id TEXT PRIMARY KEY,
+    pin TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS results_by_pin ON results (pin);
+`;
+
+function parseRow(row) {
+  return row ? JSON.parse(row.data) : null;
+}
+
+/** Brings rows saved under an older `SCHEMA_VERSION` up to date; tracked in `user_version`. */
+function upgradeRecords(db, file) {
+  const version = db.pragma("user_version", { simple: true });
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`${file} was saved by a newer version of the app (schema ${version})`);
+  }
+  if (version === SCHEMA_VERSION) return;
+  db.transaction(() => {
+    for (const table of ["quizzes", "rooms"]) {
+      const update = db.prepare(`UPDATE ${table} SET data = ? WHERE rowid = ?`);
+      for (const row of db.prepare(`SELECT rowid, data FROM ${table}`).all()) {
+        update.run(JSON.stringify(migrateRecord(JSON.parse(row.data))), row.rowid);
+      }
+    }
+    db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  })();
+}
+
+/**
+ * Everything in one SQLite database file. WAL mode lets the Next server and the WS server
+ * read while the other writes. Lists come back in the order records were first saved,
+ * like the JSON files.
+ */
+export async function createSqliteStorage(file) {
+  // Loaded here so the JSON backend never needs the native module.
+  const { default: Database } = await import("better-sqlite3");
+  mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  db.pragma("busy_timeout = 5000");
+  db.exec(SCHEMA);
+  upgradeRecords(db, file);
+
+  const listQuizzes = db.prepare("SELECT data FROM quizzes ORDER BY rowid");
+  const getQuiz = db.prepare("SELECT data FROM quizzes WHERE id = ?");
+  // An upsert rather than INSERT OR REPLACE, which would move the row to the end.
+  const saveQuiz = db.prepare(
+    "INSERT INTO quizzes (id, data) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data",
+  );
+  const listRooms = db.prepare("SELECT data FROM rooms ORDER BY rowid");
+  const getRoom = db.prepare("SELECT data FROM rooms WHERE pin = ?");
+  const saveRoom = db.prepare(
+    "INSERT INTO rooms (pin, data) VALUES (?, ?) ON CONFLICT (pin) DO UPDATE SET data = excluded.data",
+  );
+  const listResults = db.prepare("SELECT data FROM results WHERE pin = ? ORDER BY rowid");
+  const addResult = db.prepare(
+    "INSERT INTO results (id, pin, data) VALUES (?, ?, ?) ON CONFLICT (id) DO UPDATE SET pin = excluded.pin, data = excluded.data",
+  );
+
+  return {
+    backend: "sqlite",
+    listQuizzes: () => listQuizzes.all().map(parseRow),
+    getQuiz: (id) => parseRow(getQuiz.get(id)),
+    saveQuiz: (quiz) => void saveQuiz.run(quiz.id, JSON.stringify(quiz)),
+    listRooms: () => listRooms.all().map(parseRow),
+    getRoom: (pin) => parseRow(getRoom.get(pin)),
+    saveRoom: (room) => void saveRoom.run(room.pin.trim(), JSON.stringify(room)),
+    listResults: (pin) => listResults.all(pin).map(parseRow),
+    addResult: (result) => void addResult.run(result.id, result.pin, JSON.stringify(result)),
+    close: () => db.close(),
+  };
+}
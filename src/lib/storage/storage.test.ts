@@ -0,0 +1,128 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { QuizRecord, RoomRecord } from "@/lib/rooms-store";
+import type { SessionResult } from "@/lib/results-store";
+import { openStorage, type DataStore } from "@/lib/storage/index.mjs";
+
+const room: RoomRecord = {
+  pin: "123456",
+  title: "Room",
+  quiz: { topic: "T", questions: [{ id: "a", type: "true_false", text: "x", correctIndex: 0, timerSeconds: 10 }] },
+};
+
+const quiz: QuizRecord = { id: "q1", title: "Quiz", hostKey: "k", quiz: room.quiz! };
+
+const result = (id: string, title = "Game") => ({ id, pin: room.pin, title }) as unknown as SessionResult;
+
+describe.each(["json", "sqlite"])("%s storage", (backend) => {
+  let dataDir: string;
+  let storage: DataStore;
+
+  beforeEach(async () => {
+    dataDir = mkdtempSync(path.join(tmpdir(), "kahoot-storage-"));
+    storage = await openStorage({ dataDir, backend });
+  });
+
+  afterEach(() => {
+    storage.close();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("starts empty", () => {
+    expect(storage.listRooms()).toEqual([]);
+    expect(storage.getRoom(room.pin)).toBeNull();
+    expect(storage.listResults(room.pin)).toEqual([]);
+  });
+
+  it("adds a quiz and replaces it by ID, keeping its place", () => {
+    storage.saveQuiz(quiz);
+    storage.saveQuiz({ ...quiz, id: "q2" });
+    storage.saveQuiz({ ...quiz, title: "Renamed" });
+    expect(storage.listQuizzes().map((q) => [q.id, q.title])).toEqual([
+      ["q1", "Renamed"],
+      ["q2", "Quiz"],
+    ]);
+    expect(storage.getQuiz("q1")).toEqual({ ...quiz, title: "Renamed" });
+    expect(storage.getQuiz("missing")).toBeNull();
+  });
+
+  it("adds a room and replaces it by PIN", () => {
+    storage.saveRoom(room);
+    storage.saveRoom({ ...room, title: "Renamed" });
+    expect(storage.listRooms()).toHaveLength(1);
+    expect(storage.getRoom(room.pin)?.title).toBe("Renamed");
+  });
+
+  it("keeps results oldest first", () => {
+    storage.addResult(result("r1"));
+    storage.addResult(result("r2"));
+    expect(storage.listResults(room.pin).map((r) => r.id)).toEqual(["r1", "r2"]);
+    expect(storage.listResults("654321")).toEqual([]);
+  });
+
+  it("replaces a result with the same ID", () => {
+    storage.addResult(result("r1"));
+    storage.addResult(result("r1", "Again"));
+    expect(storage.listResults(room.pin)).toEqual([result("r1", "Again")]);
+  });
+});
+
+describe("sqlite schema upgrade", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), "kahoot-storage-"));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  /** A database as an older version left it, with `user_version` set to `version`. */
+  function seed(version: number, records: { quizzes?: unknown[]; rooms?: unknown[] }) {
+    const db = new Database(path.join(dataDir, "kahoot.sqlite"));
+    db.exec("CREATE TABLE quizzes (id TEXT PRIMARY KEY, data TEXT NOT NULL)");
+    db.exec("CREATE TABLE rooms (pin TEXT PRIMARY KEY, data TEXT NOT NULL)");
+    for (const q of records.quizzes ?? []) {
+      db.prepare("INSERT INTO quizzes (id, data) VALUES (?, ?)").run((q as QuizRecord).id, JSON.stringify(q));
+    }
+    for (const r of records.rooms ?? []) {
+      db.prepare("INSERT INTO rooms (pin, data) VALUES (?, ?)").run((r as RoomRecord).pin, JSON.stringify(r));
+    }
+    db.pragma(`user_version = ${version}`);
+    db.close();
+  }
+
+  it("upgrades schema 1 records once and saves the result", async () => {
+    seed(1, {
+      quizzes: [{ id: "q1", title: "Old", hostKey: "k", quiz: { title: "Old topic", questions: [{ text: "A" }] } }],
+      rooms: [{ pin: "123456", title: "Room", quiz: { topic: "T", questions: [{ text: "B", topic: "x" }] } }],
+    });
+
+    const storage = await openStorage({ dataDir, backend: "sqlite" });
+    expect(storage.getQuiz("q1")?.quiz).toEqual({ topic: "Old topic", questions: [{ text: "A", id: "legacy-q1-1" }] });
+    expect(storage.getRoom("123456")?.quiz?.questions).toEqual([{ text: "B", id: "legacy-123456-1" }]);
+    storage.close();
+
+    const db = new Database(path.join(dataDir, "kahoot.sqlite"));
+    expect(db.pragma("user_version", { simple: true })).toBe(2);
+    expect(JSON.parse((db.prepare("SELECT data FROM quizzes").get() as { data: string }).data).quiz.topic).toBe(
+      "Old topic",
+    );
+    db.close();
+  });
+
+  it("refuses a database saved by a newer version", async () => {
+    seed(99, {});
+    await expect(openStorage({ dataDir, backend: "sqlite" })).rejects.toThrow(/newer version/);
+  });
+});
+
+describe("openStorage", () => {
+  it("refuses an unknown backend", async () => {
+    await expect(openStorage({ dataDir: tmpdir(), backend: "mongo" })).rejects.toThrow(/Unknown storage backend/);
+  });
+});
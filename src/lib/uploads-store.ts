@@ -0,0 +1,42 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { isUploadName, type UploadImageType } from "@/lib/uploads";
+
+function uploadsDir() {
+  return path.join(process.cwd(), "src", "data", "uploads");
+}
+
+/** Sniffs the file signature; the browser-supplied MIME type is not trusted. */
+export function detectImageType(bytes: Uint8Array): UploadImageType | null {
+  const startsWith = (sig: number[], offset = 0) => sig.every((b, i) => bytes[offset + i] === b);
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (startsWith([0xff, 0xd8, 0xff])) return "jpg";
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return "gif";
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return "webp";
+  return null;
+}
+
+/** Stores an image and returns its upload name; the same image uploaded twice is stored once. */
+export async function saveUpload(bytes: Uint8Array): Promise<string> {
+  const type = detectImageType(bytes);
+  if (!type) throw new Error("UNSUPPORTED_TYPE");
+
+  const name = `${createHash("sha256").update(bytes).digest("hex").slice(0, 32)}.${type}`;
+  const dir = uploadsDir();
+  await fs.mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, name);
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, bytes);
+  await fs.rename(tmpPath, filePath);
+  return name;
+}
+
+export async function readUpload(name: string): Promise<Uint8Array | null> {
+  if (!isUploadName(name)) return null;
+  try {
+    return await fs.readFile(path.join(uploadsDir(), name));
+  } catch {
+    return null;
+  }
+}
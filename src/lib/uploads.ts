@@ -0,0 +1,27 @@
+import { withBasePath } from "@/lib/public-base-path";
+
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+/** The key an upload is made with: a library quiz's, or a room's host key. */
+export type UploadCredentials = { quizId: string; hostKey: string } | { pin: string; hostKey: string };
+
+export type UploadImageType = "png" | "jpg" | "gif" | "webp";
+
+export const UPLOAD_CONTENT_TYPES: Record<UploadImageType, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+/** Uploads are named by a hash of their content plus the detected type, e.g. `3f…9a.png`. */
+const UPLOAD_NAME_RE = /^[a-f0-9]{32}\.(png|jpg|gif|webp)$/;
+
+export function isUploadName(value: unknown): value is string {
+  return typeof value === "string" && UPLOAD_NAME_RE.test(value);
+}
+
+/** Where the browser loads an uploaded image from; works under `NEXT_PUBLIC_BASE_PATH`. */
+export function uploadUrl(name: string): string {
+  return withBasePath(`/api/uploads/${encodeURIComponent(name)}`);
+}
@@ -0,0 +1,39 @@
+import type { JoinBlock } from "@/lib/room-settings";
+
+/** Where the Next server reaches the WS server's HTTP endpoints. */
+function wsHttpUrl() {
+  return (process.env.WS_HTTP_URL?.trim() || "http://localhost:3001").replace(/\/$/, "");
+}
+
+type GameStatus = { running?: boolean; joinBlock?: JoinBlock | null };
+
+/** What the WS server knows about the game on this PIN; null if it can't be reached. */
+async function fetchGameStatus(pin: string): Promise<GameStatus | null> {
+  try {
+    const res = await fetch(`${wsHttpUrl()}/games/${encodeURIComponent(pin)}`, {
+      cache: "no-store",
+      signal: AbortSignal.timeout(2000),
+    });
+    if (!res.ok) return null;
+    return (await res.json().catch(() => null)) as GameStatus | null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a game is being played on this PIN right now; null if the WS server can't be
+ * reached, since a game may still be running there.
+ */
+export async function isGameRunning(pin: string): Promise<boolean | null> {
+  const status = await fetchGameStatus(pin);
+  return status ? status.running === true : null;
+}
+
+/**
+ * Why new players can't join this PIN right now (locked, full, or started without late
+ * joining); null when they can, or when the WS server can't say.
+ */
+export async function gameJoinBlock(pin: string): Promise<JoinBlock | null> {
+  return (await fetchGameStatus(pin))?.joinBlock ?? null;
+}